@@ -0,0 +1,25 @@
+// src/hooks/useOrderEvents.ts
+
+import { useEffect, useRef } from 'react';
+import type { OrderManager } from '@/services/orderManger';
+import type { OrderEventListener, OrderEventName } from '@/services/orderEvents';
+
+/**
+ * Subscribe a component to an order lifecycle event for as long as it is mounted
+ */
+export function useOrderEvent<K extends OrderEventName>(
+  orderManager: OrderManager | null | undefined,
+  event: K,
+  listener: OrderEventListener<K>
+): void {
+  // Keep the latest listener without resubscribing on every render
+  const listenerRef = useRef(listener);
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => {
+    if (!orderManager) return;
+    return orderManager.on(event, payload => listenerRef.current(payload));
+  }, [orderManager, event]);
+}
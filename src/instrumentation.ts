@@ -0,0 +1,9 @@
+// src/instrumentation.ts
+// Next.js server startup hook: starts background order jobs when enabled.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startBackgroundJobs } = await import('@/services/serverOrderManager');
+  startBackgroundJobs();
+}
@@ -0,0 +1,73 @@
+// src/pages/api/liquidity-providers/[id].ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLiquidityProviderRegistry } from '@/services/serverOrderManager';
+import { hasRole, requireRole } from '@/services/authorization';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, LiquidityProvider } from '@/types';
+
+/**
+ * GET   /api/liquidity-providers/:id  Fetch a provider
+ * PATCH /api/liquidity-providers/:id  Update limits, pairs or rate (the active LP itself or admin),
+ *   or change status (admin)
+ * Body: { name?, settlementAddress?, supportedOutputTokens?, minOrderSize?, maxOrderSize?, rate?, fiatCurrency?, status? }
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<LiquidityProvider>>
+) {
+  if (!allowMethods(req, res, ['GET', 'PATCH'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const providerId = getQueryParam(req, 'id') ?? '';
+    const registry = getLiquidityProviderRegistry();
+
+    if (req.method === 'PATCH') {
+      const { status, ...body } = req.body ?? {};
+      if (!hasRole(caller, 'admin')) {
+        requireRole(caller, 'liquidityProvider', 'updating a provider listing');
+        if (providerId !== caller.publicKey) {
+          throw new OrderError('Unauthorized: LPs can only update their own listing', 'UNAUTHORIZED');
+        }
+
+        // A suspended LP may not change where or at what rate it is paid
+        const current = registry.getProvider(providerId);
+        if (current && current.status !== 'active') {
+          throw new OrderError('Unauthorized: Suspended providers cannot update their listing', 'UNAUTHORIZED');
+        }
+      }
+      if (status !== undefined) {
+        requireRole(caller, 'admin', 'changing provider status');
+      }
+      if (status !== undefined && status !== 'active' && status !== 'suspended') {
+        throw new OrderError('status must be active or suspended', 'INVALID_PARAMS');
+      }
+
+      const updates: Partial<LiquidityProvider> = {};
+      for (const field of ['name', 'settlementAddress', 'supportedOutputTokens', 'fiatCurrency'] as const) {
+        if (body[field] !== undefined) updates[field] = body[field];
+      }
+      for (const field of ['minOrderSize', 'maxOrderSize', 'rate'] as const) {
+        if (body[field] !== undefined) updates[field] = Number(body[field]);
+      }
+
+      let provider = registry.updateProvider(providerId, updates);
+      if (status) {
+        provider = registry.setProviderStatus(providerId, status);
+      }
+
+      return sendSuccess(res, provider);
+    }
+
+    const provider = registry.getProvider(providerId);
+    if (!provider) {
+      throw new OrderError('Liquidity provider not found', 'LP_NOT_FOUND');
+    }
+
+    sendSuccess(res, provider);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,51 @@
+// src/pages/api/liquidity-providers/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLiquidityProviderRegistry } from '@/services/serverOrderManager';
+import { requireRole } from '@/services/authorization';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, LiquidityProvider } from '@/types';
+
+/**
+ * GET  /api/liquidity-providers?outputToken=&outputAmount=  List providers, or eligible ones best rate first
+ * POST /api/liquidity-providers                             Register a provider (admin)
+ * Body: { id, name, settlementAddress, supportedOutputTokens, minOrderSize, maxOrderSize, rate, fiatCurrency? }
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<LiquidityProvider | LiquidityProvider[]>>
+) {
+  if (!allowMethods(req, res, ['GET', 'POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const registry = getLiquidityProviderRegistry();
+
+    if (req.method === 'GET') {
+      const outputToken = getQueryParam(req, 'outputToken');
+      const outputAmount = getQueryParam(req, 'outputAmount');
+
+      return sendSuccess(res, outputToken
+        ? registry.getEligibleProviders(outputToken, outputAmount ? Number(outputAmount) : undefined)
+        : registry.getProviders());
+    }
+
+    requireRole(caller, 'admin', 'registering liquidity providers');
+
+    const body = req.body ?? {};
+    const provider = registry.registerProvider({
+      id: body.id,
+      name: body.name,
+      settlementAddress: body.settlementAddress,
+      supportedOutputTokens: body.supportedOutputTokens,
+      minOrderSize: Number(body.minOrderSize),
+      maxOrderSize: Number(body.maxOrderSize),
+      rate: Number(body.rate),
+      fiatCurrency: body.fiatCurrency
+    });
+
+    sendSuccess(res, provider, `Liquidity provider ${provider.id} registered`, 201);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
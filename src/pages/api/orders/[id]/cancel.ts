@@ -0,0 +1,33 @@
+// src/pages/api/orders/[id]/cancel.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/cancel  Cancel a pending order (creator or admin)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const caller = authenticateRequest(req);
+    const orderManager = getOrderManager();
+
+    await orderManager.cancelOrder(orderId, caller);
+    sendSuccess(res, orderManager.getOrder(orderId, caller)!, `Order ${orderId} cancelled`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
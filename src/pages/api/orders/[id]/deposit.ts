@@ -0,0 +1,39 @@
+// src/pages/api/orders/[id]/deposit.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/deposit  Record the creator's on-chain deposit for a pending order (creator or admin)
+ * Body: { signature: string }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const caller = authenticateRequest(req);
+    const signature = req.body?.signature;
+
+    if (typeof signature !== 'string' || !signature) {
+      throw new OrderError('signature is required', 'INVALID_PARAMS');
+    }
+
+    const order = await getOrderManager().recordDeposit(orderId, signature, caller);
+    sendSuccess(res, order, `Deposit recorded for order ${orderId}`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
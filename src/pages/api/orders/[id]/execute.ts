@@ -0,0 +1,36 @@
+// src/pages/api/orders/[id]/execute.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExecutorWallet, getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/execute  Execute a pending order with the server executor wallet (creator, LP or admin)
+ * Only orders with a verified deposit are executed
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const orderManager = getOrderManager();
+
+    const maxDriftBps = req.body?.maxDriftBps === undefined ? undefined : Number(req.body.maxDriftBps);
+
+    await orderManager.executeOrder(orderId, getExecutorWallet(), caller, { maxDriftBps });
+    sendSuccess(res, orderManager.getOrder(orderId, caller)!, `Order ${orderId} executed`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
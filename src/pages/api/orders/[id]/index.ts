@@ -0,0 +1,35 @@
+// src/pages/api/orders/[id]/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * GET /api/orders/:id  Fetch a single order (creator, LP or admin)
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const order = getOrderManager().getOrder(orderId, authenticateRequest(req));
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    sendSuccess(res, order);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
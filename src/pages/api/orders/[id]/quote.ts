@@ -0,0 +1,33 @@
+// src/pages/api/orders/[id]/quote.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/quote  Refresh the quote of a pending order
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const orderManager = getOrderManager();
+
+    await orderManager.updateOrderQuote(orderId, caller);
+    sendSuccess(res, orderManager.getOrder(orderId, caller)!, `Quote updated for order ${orderId}`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
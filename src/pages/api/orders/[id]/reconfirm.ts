@@ -0,0 +1,30 @@
+// src/pages/api/orders/[id]/reconfirm.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/reconfirm  Accept the current quote after a drift refusal (creator only)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const order = await getOrderManager().reconfirmOrderQuote(orderId, authenticateRequest(req));
+    sendSuccess(res, order, `Order ${orderId} re-confirmed`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,34 @@
+// src/pages/api/orders/[id]/refund.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExecutorWallet, getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/refund  Refund a failed, expired or cancelled order, or a fulfilled order's
+ *   unspent deposit, from the executor wallet (creator or admin)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const orderManager = getOrderManager();
+
+    await orderManager.refundOrder(orderId, getExecutorWallet(), caller);
+    sendSuccess(res, orderManager.getOrder(orderId, caller)!, `Order ${orderId} refunded`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
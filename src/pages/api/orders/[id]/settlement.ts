@@ -0,0 +1,39 @@
+// src/pages/api/orders/[id]/settlement.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, Order } from '@/types';
+
+/**
+ * POST /api/orders/:id/settlement  Record the fiat payout reference (order's LP or admin)
+ * Body: { settlementReference: string }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const orderId = getQueryParam(req, 'id') ?? '';
+    const caller = authenticateRequest(req);
+    const settlementReference = req.body?.settlementReference;
+
+    if (typeof settlementReference !== 'string') {
+      throw new OrderError('settlementReference is required', 'INVALID_PARAMS');
+    }
+
+    const order = await getOrderManager().recordFiatSettlement(orderId, settlementReference.trim(), caller);
+    sendSuccess(res, order, `Order ${orderId} settled`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
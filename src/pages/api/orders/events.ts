@@ -0,0 +1,51 @@
+// src/pages/api/orders/events.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import { ORDER_EVENT_NAMES } from '@/services/orderEvents';
+import { canAccessOrder } from '@/services/authorization';
+import { allowMethods, authenticateRequest, getQueryParam, parsePublicKey, sendError } from '@/utils/api';
+import type { Caller } from '@/types';
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+/**
+ * GET /api/orders/events?creator=  Server-sent stream of lifecycle events for orders the caller can see
+ * (EventSource cannot set headers; sign the request from a fetch-based SSE client)
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  let caller: Caller;
+  let creator: string | undefined;
+  try {
+    caller = authenticateRequest(req);
+    const creatorParam = getQueryParam(req, 'creator');
+    creator = creatorParam ? parsePublicKey(creatorParam, 'creator').toString() : undefined;
+  } catch (error) {
+    return sendError(res, error);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive'
+  });
+  res.write(': connected\n\n');
+
+  const orderManager = getOrderManager();
+  const unsubscribes = ORDER_EVENT_NAMES.map(event =>
+    orderManager.on(event, payload => {
+      if (!canAccessOrder(caller, payload.order)) return;
+      if (creator && payload.order.creator !== creator) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+    })
+  );
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribes.forEach(unsubscribe => unsubscribe());
+  });
+}
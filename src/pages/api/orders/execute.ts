@@ -0,0 +1,39 @@
+// src/pages/api/orders/execute.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExecutorWallet, getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  parseOrderIds,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, BatchOrderResult } from '@/types';
+
+/**
+ * POST /api/orders/execute  Execute a batch of pending orders; each needs a verified deposit
+ * Body: { orderIds: string[], concurrency?: number, maxDriftBps?: number }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<BatchOrderResult[]>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderIds = parseOrderIds(req.body?.orderIds);
+    const { concurrency, maxDriftBps } = req.body;
+
+    const results = await getOrderManager().executeOrders(orderIds, getExecutorWallet(), caller, {
+      concurrency: concurrency === undefined ? undefined : Number(concurrency),
+      maxDriftBps: maxDriftBps === undefined ? undefined : Number(maxDriftBps)
+    });
+
+    const executed = results.filter(result => result.success).length;
+    sendSuccess(res, results, `Executed ${executed} of ${results.length} orders`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,39 @@
+// src/pages/api/orders/export.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+
+/**
+ * GET /api/orders/export?format=json|csv&sensitive=true  Download the order book (admin).
+ * Fiat recipient details are masked unless sensitive=true (JSON only).
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const format = getQueryParam(req, 'format') ?? 'json';
+    const orderManager = getOrderManager();
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="orders-${date}.csv"`);
+      return res.status(200).send(orderManager.exportOrdersCsv(caller));
+    }
+
+    if (format !== 'json') {
+      throw new OrderError(`Invalid format: ${format}`, 'INVALID_PARAMS');
+    }
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="orders-${date}.json"`);
+    res.status(200).send(orderManager.exportOrders(caller, {
+      includeSensitive: getQueryParam(req, 'sensitive') === 'true'
+    }));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,46 @@
+// src/pages/api/orders/import.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, sendError, sendSuccess } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, ImportConflictMode, ImportReport } from '@/types';
+
+const MODES: ImportConflictMode[] = ['skip', 'overwrite', 'fail'];
+
+// Order book migrations can exceed the default 1mb body limit
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '50mb' }
+  }
+};
+
+/**
+ * POST /api/orders/import  Merge an order export into the order book (admin)
+ * Body: { data: object | string, mode?: 'skip' | 'overwrite' | 'fail', dryRun?: boolean }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<ImportReport>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const { data, mode = 'fail', dryRun = false } = req.body ?? {};
+    if (data === undefined) {
+      throw new OrderError('data is required', 'INVALID_PARAMS');
+    }
+
+    if (!MODES.includes(mode)) {
+      throw new OrderError(`Invalid mode: ${mode}`, 'INVALID_PARAMS');
+    }
+
+    const json = typeof data === 'string' ? data : JSON.stringify(data);
+    const report = await getOrderManager().importOrders(json, caller, { mode, dryRun: dryRun === true });
+
+    sendSuccess(res, report, dryRun ? 'Dry run complete' : 'Import applied');
+  } catch (error) {
+    sendError(res, error);
+  }
+}
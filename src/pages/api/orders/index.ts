@@ -0,0 +1,68 @@
+// src/pages/api/orders/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getIpRateLimiter, getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getClientIp,
+  getHeader,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import { parseOrderQuery } from '@/utils/orderQuery';
+import type { ApiResponse, Order, OrderCreationParams, OrderPage } from '@/types';
+
+/**
+ * GET  /api/orders   Search orders (the caller's own, orders routed to an LP, or any for admins)
+ *   Query: creator, liquidityProvider, status (comma-separated), inputToken, outputToken,
+ *   createdAfter, createdBefore, minInputAmount, maxInputAmount, signature,
+ *   sortBy, sortDirection, limit, cursor
+ * POST /api/orders   Create an order owned by the caller (honours an Idempotency-Key header);
+ *   rate limited per IP and per wallet. ExactIn orders take inputAmount; swapMode ExactOut
+ *   orders take outputAmount and return the quoted maxInputAmount to deposit.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order | OrderPage>>
+) {
+  if (!allowMethods(req, res, ['GET', 'POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderManager = getOrderManager();
+
+    if (req.method === 'GET') {
+      const params = Object.fromEntries(
+        Object.keys(req.query).map(name => [name, getQueryParam(req, name)])
+      );
+      return sendSuccess(res, orderManager.queryOrders(parseOrderQuery(params), caller));
+    }
+
+    getIpRateLimiter().consume(getClientIp(req));
+
+    const body = req.body ?? {};
+
+    const params: OrderCreationParams = {
+      inputToken: body.inputToken,
+      outputToken: body.outputToken,
+      swapMode: body.swapMode,
+      inputAmount: body.inputAmount === undefined ? undefined : Number(body.inputAmount),
+      outputAmount: body.outputAmount === undefined ? undefined : Number(body.outputAmount),
+      rate: body.rate,
+      targetRate: body.targetRate,
+      liquidityProvider: body.liquidityProvider,
+      refundAddress: body.refundAddress,
+      depositSignature: body.depositSignature,
+      expiresAt: body.expiresAt === undefined ? undefined : Number(body.expiresAt),
+      fiat: body.fiat,
+      idempotencyKey: getHeader(req, 'idempotency-key') ?? body.idempotencyKey
+    };
+
+    const orderId = await orderManager.createOrder(params, caller);
+    sendSuccess(res, orderManager.getOrder(orderId, caller)!, `Order ${orderId} created`, 201);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
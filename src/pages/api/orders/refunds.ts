@@ -0,0 +1,33 @@
+// src/pages/api/orders/refunds.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExecutorWallet, getOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, Order, RefundResult } from '@/types';
+
+/**
+ * GET  /api/orders/refunds  List orders awaiting a refund (admin)
+ * POST /api/orders/refunds  Refund all eligible failed, expired or cancelled orders, and
+ *   the unspent deposit of fulfilled ones (admin)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<Order[] | RefundResult[]>>
+) {
+  if (!allowMethods(req, res, ['GET', 'POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderManager = getOrderManager();
+
+    if (req.method === 'GET') {
+      return sendSuccess(res, orderManager.getRefundableOrders(caller));
+    }
+
+    const results = await orderManager.refundEligibleOrders(getExecutorWallet(), caller);
+    const refunded = results.filter(result => result.success).length;
+    sendSuccess(res, results, `Refunded ${refunded} of ${results.length} orders`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
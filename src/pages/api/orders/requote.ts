@@ -0,0 +1,38 @@
+// src/pages/api/orders/requote.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  parseOrderIds,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import type { ApiResponse, BatchOrderResult } from '@/types';
+
+/**
+ * POST /api/orders/requote  Refresh quotes for a batch of orders (all pending orders, admin only, if orderIds is omitted)
+ * Body: { orderIds?: string[], concurrency?: number }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<BatchOrderResult[]>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const orderManager = getOrderManager();
+    const concurrency = req.body?.concurrency === undefined ? undefined : Number(req.body.concurrency);
+
+    const results = req.body?.orderIds === undefined
+      ? await orderManager.refreshPendingQuotes(caller, { concurrency })
+      : await orderManager.refreshQuotes(parseOrderIds(req.body.orderIds), caller, { concurrency });
+
+    const refreshed = results.filter(result => result.success).length;
+    sendSuccess(res, results, `Refreshed ${refreshed} of ${results.length} quotes`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,22 @@
+// src/pages/api/orders/stats.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, OrderStats } from '@/types';
+
+/**
+ * GET /api/orders/stats  Aggregate order statistics (admin)
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<OrderStats>>
+) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    sendSuccess(res, getOrderManager().getOrderStats(authenticateRequest(req)));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,39 @@
+// src/pages/api/orders/volume.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import { JupiterPriceSource } from '@/services/priceSource';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, StatsWindow, VolumeStats } from '@/types';
+
+const WINDOWS: StatsWindow[] = ['day', 'week', 'month', 'all'];
+
+/**
+ * GET /api/orders/volume?window=day|week|month|all&usd=true  Per-mint volume and fees (admin)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<VolumeStats>>
+) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const window = (getQueryParam(req, 'window') ?? 'all') as StatsWindow;
+    if (!WINDOWS.includes(window)) {
+      throw new OrderError(`Invalid window: ${window}`, 'INVALID_PARAMS');
+    }
+
+    const priceSource = getQueryParam(req, 'usd') === 'true' ? new JupiterPriceSource() : undefined;
+    sendSuccess(res, await getOrderManager().getVolumeStats(caller, window, priceSource));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,22 @@
+// src/pages/api/quotes/cache.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, QuoteCacheMetrics } from '@/types';
+
+/**
+ * GET /api/quotes/cache  Quote cache hit/miss metrics (admin)
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<QuoteCacheMetrics>>
+) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    sendSuccess(res, getOrderManager().getQuoteCacheMetrics(authenticateRequest(req)));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
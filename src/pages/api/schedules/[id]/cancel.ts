@@ -0,0 +1,28 @@
+// src/pages/api/schedules/[id]/cancel.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getRecurringOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, RecurringSchedule } from '@/types';
+
+/**
+ * POST /api/schedules/:id/cancel  Cancel a schedule and its pending orders (creator only); funded
+ *   orders become refundable and the unallocated deposit is returned with /refund
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RecurringSchedule>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const scheduleId = getQueryParam(req, 'id') ?? '';
+    const userPublicKey = new PublicKey(authenticateRequest(req).publicKey);
+
+    const schedule = await getRecurringOrderManager().cancelSchedule(scheduleId, userPublicKey);
+    sendSuccess(res, schedule, `Schedule ${scheduleId} cancelled`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,34 @@
+// src/pages/api/schedules/[id]/deposit.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getRecurringOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, RecurringSchedule } from '@/types';
+
+/**
+ * POST /api/schedules/:id/deposit  Record the on-chain deposit funding a schedule's slices (creator only)
+ * Body: { signature: string }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RecurringSchedule>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const scheduleId = getQueryParam(req, 'id') ?? '';
+    const userPublicKey = new PublicKey(authenticateRequest(req).publicKey);
+    const signature = req.body?.signature;
+
+    if (typeof signature !== 'string' || !signature) {
+      throw new OrderError('signature is required', 'INVALID_PARAMS');
+    }
+
+    const schedule = await getRecurringOrderManager().recordDeposit(scheduleId, signature, userPublicKey);
+    sendSuccess(res, schedule, `Deposit recorded for schedule ${scheduleId}`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
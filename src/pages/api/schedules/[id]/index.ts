@@ -0,0 +1,37 @@
+// src/pages/api/schedules/[id]/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRecurringOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import { hasRole } from '@/services/authorization';
+import { OrderError } from '@/utils/errors';
+import type { ApiResponse, RecurringSchedule, ScheduleProgress } from '@/types';
+
+/**
+ * GET /api/schedules/:id  Fetch a schedule with its aggregated progress (creator or admin)
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<{ schedule: RecurringSchedule; progress: ScheduleProgress }>>
+) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const scheduleId = getQueryParam(req, 'id') ?? '';
+    const recurringOrderManager = getRecurringOrderManager();
+
+    const schedule = recurringOrderManager.getSchedule(scheduleId);
+    if (!schedule) {
+      throw new OrderError('Schedule not found', 'SCHEDULE_NOT_FOUND');
+    }
+
+    if (schedule.creator !== caller.publicKey && !hasRole(caller, 'admin')) {
+      throw new OrderError('Unauthorized: Only schedule creator can view', 'UNAUTHORIZED');
+    }
+
+    sendSuccess(res, { schedule, progress: recurringOrderManager.getScheduleProgress(scheduleId) });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
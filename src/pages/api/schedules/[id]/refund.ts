@@ -0,0 +1,29 @@
+// src/pages/api/schedules/[id]/refund.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getExecutorWallet, getRecurringOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, RecurringSchedule } from '@/types';
+
+/**
+ * POST /api/schedules/:id/refund  Refund the unallocated deposit of a cancelled or completed
+ * schedule from the executor wallet (creator only)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RecurringSchedule>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const scheduleId = getQueryParam(req, 'id') ?? '';
+    const userPublicKey = new PublicKey(authenticateRequest(req).publicKey);
+    const recurringOrderManager = getRecurringOrderManager();
+
+    await recurringOrderManager.refundSchedule(scheduleId, getExecutorWallet(), userPublicKey);
+    sendSuccess(res, recurringOrderManager.getSchedule(scheduleId)!, `Schedule ${scheduleId} refunded`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,27 @@
+// src/pages/api/schedules/[id]/resume.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getRecurringOrderManager } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import type { ApiResponse, RecurringSchedule } from '@/types';
+
+/**
+ * POST /api/schedules/:id/resume  Resume a paused schedule (creator only)
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RecurringSchedule>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const scheduleId = getQueryParam(req, 'id') ?? '';
+    const userPublicKey = new PublicKey(authenticateRequest(req).publicKey);
+
+    const schedule = getRecurringOrderManager().resumeSchedule(scheduleId, userPublicKey);
+    sendSuccess(res, schedule, `Schedule ${scheduleId} resumed`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
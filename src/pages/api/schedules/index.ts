@@ -0,0 +1,62 @@
+// src/pages/api/schedules/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRecurringOrderManager } from '@/services/serverOrderManager';
+import {
+  allowMethods,
+  authenticateRequest,
+  getQueryParam,
+  parsePublicKey,
+  sendError,
+  sendSuccess
+} from '@/utils/api';
+import { requireRole } from '@/services/authorization';
+import type { ApiResponse, RecurringSchedule, RecurringScheduleParams } from '@/types';
+
+const optionalNumber = (value: unknown) => value === undefined ? undefined : Number(value);
+
+/**
+ * GET  /api/schedules?creator=  List the caller's recurring schedules (another user's for admins)
+ * POST /api/schedules           Create a recurring (DCA) schedule owned by the caller
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RecurringSchedule | RecurringSchedule[]>>
+) {
+  if (!allowMethods(req, res, ['GET', 'POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    const recurringOrderManager = getRecurringOrderManager();
+
+    if (req.method === 'GET') {
+      const creator = parsePublicKey(getQueryParam(req, 'creator') ?? caller.publicKey, 'creator');
+      if (creator.toString() !== caller.publicKey) {
+        requireRole(caller, 'admin', 'listing another user\'s schedules');
+      }
+      return sendSuccess(res, recurringOrderManager.getUserSchedules(creator));
+    }
+
+    const body = req.body ?? {};
+    const creator = parsePublicKey(caller.publicKey, 'creator');
+
+    const params: RecurringScheduleParams = {
+      inputToken: body.inputToken,
+      outputToken: body.outputToken,
+      amountPerSlice: Number(body.amountPerSlice),
+      intervalMs: Number(body.intervalMs),
+      totalSlices: Number(body.totalSlices),
+      minOutputPerInput: optionalNumber(body.minOutputPerInput),
+      maxOutputPerInput: optionalNumber(body.maxOutputPerInput),
+      liquidityProvider: body.liquidityProvider,
+      refundAddress: body.refundAddress,
+      depositSignature: body.depositSignature,
+      startAt: optionalNumber(body.startAt)
+    };
+
+    const schedule = await recurringOrderManager.createSchedule(params, creator);
+    sendSuccess(res, schedule, `Schedule ${schedule.id} created`, 201);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,32 @@
+// src/pages/api/webhooks/[id]/deliveries.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getWebhookService } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import { requireEndpointAccess } from '@/utils/webhooks';
+import type { ApiResponse, WebhookDelivery } from '@/types';
+
+/**
+ * GET /api/webhooks/:id/deliveries?orderId=  Delivery log for an endpoint (endpoint's LP or admin)
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<WebhookDelivery[]>>
+) {
+  if (!allowMethods(req, res, ['GET'])) return;
+
+  try {
+    const endpointId = getQueryParam(req, 'id') ?? '';
+    const webhookService = getWebhookService();
+    requireEndpointAccess(authenticateRequest(req), webhookService.getEndpoint(endpointId));
+
+    const deliveries = webhookService.getDeliveries({
+      endpointId,
+      orderId: getQueryParam(req, 'orderId')
+    });
+
+    sendSuccess(res, deliveries);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,44 @@
+// src/pages/api/webhooks/[id]/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getWebhookService } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import { redactEndpoint, requireEndpointAccess } from '@/utils/webhooks';
+import type { ApiResponse, WebhookEndpoint } from '@/types';
+
+/**
+ * Endpoint's LP or admin only.
+ * GET    /api/webhooks/:id  Fetch an endpoint (secret redacted)
+ * PATCH  /api/webhooks/:id  Enable or disable an endpoint. Body: { active: boolean }
+ * DELETE /api/webhooks/:id  Remove an endpoint
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<WebhookEndpoint | null>>
+) {
+  if (!allowMethods(req, res, ['GET', 'PATCH', 'DELETE'])) return;
+
+  try {
+    const endpointId = getQueryParam(req, 'id') ?? '';
+    const webhookService = getWebhookService();
+    const endpoint = requireEndpointAccess(authenticateRequest(req), webhookService.getEndpoint(endpointId));
+
+    if (req.method === 'DELETE') {
+      webhookService.removeEndpoint(endpointId);
+      return sendSuccess(res, null, `Webhook endpoint ${endpointId} removed`);
+    }
+
+    if (req.method === 'PATCH') {
+      if (typeof req.body?.active !== 'boolean') {
+        throw new OrderError('active must be a boolean', 'INVALID_PARAMS');
+      }
+
+      return sendSuccess(res, redactEndpoint(webhookService.setEndpointActive(endpointId, req.body.active)));
+    }
+
+    sendSuccess(res, redactEndpoint(endpoint));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,35 @@
+// src/pages/api/webhooks/deliveries/[id]/redeliver.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getWebhookService } from '@/services/serverOrderManager';
+import { allowMethods, authenticateRequest, getQueryParam, sendError, sendSuccess } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import { requireEndpointAccess } from '@/utils/webhooks';
+import type { ApiResponse, WebhookDelivery } from '@/types';
+
+/**
+ * POST /api/webhooks/deliveries/:id/redeliver  Send a delivery again (endpoint's LP or admin)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<WebhookDelivery>>
+) {
+  if (!allowMethods(req, res, ['POST'])) return;
+
+  try {
+    const deliveryId = getQueryParam(req, 'id') ?? '';
+    const webhookService = getWebhookService();
+
+    const existing = webhookService.getDelivery(deliveryId);
+    if (!existing) {
+      throw new OrderError('Webhook delivery not found', 'WEBHOOK_NOT_FOUND');
+    }
+    requireEndpointAccess(authenticateRequest(req), webhookService.getEndpoint(existing.endpointId));
+
+    const delivery = await webhookService.redeliver(deliveryId);
+
+    sendSuccess(res, delivery, `Delivery ${deliveryId} ${delivery.status}`);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,49 @@
+// src/pages/api/webhooks/index.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getWebhookService } from '@/services/serverOrderManager';
+import { hasRole, requireRole } from '@/services/authorization';
+import { allowMethods, authenticateRequest, parsePublicKey, sendError, sendSuccess } from '@/utils/api';
+import { OrderError } from '@/utils/errors';
+import { canManageEndpoint, redactEndpoint } from '@/utils/webhooks';
+import type { ApiResponse, WebhookEndpoint } from '@/types';
+
+/**
+ * GET  /api/webhooks  List the caller's webhook endpoints, all for admins (secrets redacted)
+ * POST /api/webhooks  Register an endpoint; the signing secret is only returned here
+ * Body: { url: string, subscriber: string, liquidityProvider?: string }
+ * LPs may only register endpoints scoped to themselves; unscoped endpoints are admin-only.
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<WebhookEndpoint | WebhookEndpoint[]>>
+) {
+  if (!allowMethods(req, res, ['GET', 'POST'])) return;
+
+  try {
+    const caller = authenticateRequest(req);
+    requireRole(caller, 'liquidityProvider', 'managing webhooks');
+    const webhookService = getWebhookService();
+
+    if (req.method === 'GET') {
+      return sendSuccess(res, webhookService.getEndpoints()
+        .filter(endpoint => canManageEndpoint(caller, endpoint))
+        .map(redactEndpoint));
+    }
+
+    const { url, subscriber } = req.body ?? {};
+    const liquidityProvider = req.body?.liquidityProvider
+      ? parsePublicKey(req.body.liquidityProvider, 'liquidityProvider').toString()
+      : undefined;
+
+    if (liquidityProvider !== caller.publicKey && !hasRole(caller, 'admin')) {
+      throw new OrderError('Unauthorized: LPs can only register endpoints for themselves', 'UNAUTHORIZED');
+    }
+
+    const endpoint = webhookService.registerEndpoint({ url, subscriber, liquidityProvider });
+
+    sendSuccess(res, endpoint, `Webhook endpoint ${endpoint.id} registered`, 201);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,57 @@
+// src/services/authorization.ts
+
+import { SYSTEM_ACTOR } from './orderStateMachine';
+import { OrderError } from '@/utils/errors';
+import type { Caller, Order, Role } from '@/types';
+
+// Caller used by the gateway's own background jobs
+export const SYSTEM_CALLER: Caller = { publicKey: SYSTEM_ACTOR, roles: ['admin'] };
+
+/**
+ * Caller acting for a wallet under an authorization it granted earlier
+ * (e.g. the child orders of a recurring schedule it created)
+ */
+export const delegatedCaller = (publicKey: string): Caller => ({ publicKey, roles: ['user'] });
+
+/**
+ * Check whether a caller holds a role. Admins hold every role.
+ */
+export function hasRole(caller: Caller, role: Role): boolean {
+  return caller.roles.includes('admin') || caller.roles.includes(role);
+}
+
+/**
+ * Throw unless the caller holds a role
+ */
+export function requireRole(caller: Caller, role: Role, action: string): void {
+  if (!hasRole(caller, role)) {
+    throw new OrderError(`Unauthorized: ${action} requires the ${role} role`, 'UNAUTHORIZED');
+  }
+}
+
+/**
+ * Check whether a caller may see an order: its creator, its LP, or an admin
+ */
+export function canAccessOrder(caller: Caller, order: Order): boolean {
+  return hasRole(caller, 'admin') ||
+    order.creator === caller.publicKey ||
+    (hasRole(caller, 'liquidityProvider') && order.liquidityProvider === caller.publicKey);
+}
+
+/**
+ * Throw unless the caller may see the order
+ */
+export function requireOrderAccess(caller: Caller, order: Order, action: string): void {
+  if (!canAccessOrder(caller, order)) {
+    throw new OrderError(`Unauthorized: Only the order's creator, LP or an admin can ${action}`, 'UNAUTHORIZED');
+  }
+}
+
+/**
+ * Throw unless the caller created the order or is an admin
+ */
+export function requireOrderCreator(caller: Caller, order: Order, action: string): void {
+  if (order.creator !== caller.publicKey && !hasRole(caller, 'admin')) {
+    throw new OrderError(`Unauthorized: Only order creator can ${action}`, 'UNAUTHORIZED');
+  }
+}
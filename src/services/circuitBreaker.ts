@@ -0,0 +1,66 @@
+// src/services/circuitBreaker.ts
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+/**
+ * Consecutive-failure circuit breaker. After `failureThreshold` failures the circuit
+ * opens for `cooldownMs`; the first call after that is a trial that closes it again
+ * on success or re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private openedAt: number = 0;
+  private trialInFlight: boolean = false;
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(failureThreshold: number, cooldownMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Check whether a call may proceed; claims the trial slot when half-open
+   */
+  allowRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.cooldownMs) {
+      this.state = 'halfOpen';
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'halfOpen' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'halfOpen' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Milliseconds until an open circuit admits a trial call
+   */
+  getRetryAfter(now: number = Date.now()): number {
+    return this.state === 'open' ? Math.max(0, this.openedAt + this.cooldownMs - now) : 0;
+  }
+}
@@ -0,0 +1,66 @@
+// src/services/fileOrderRepository.ts
+// Server-only: imports Node's fs module, do not import from client components.
+
+import fs from 'fs';
+import path from 'path';
+import { CONFIG } from '@/utils/constants';
+import type { Order, RecurringSchedule } from '@/types';
+import type { Repository } from './orderRepository';
+
+/**
+ * JSON file backed repository; records are stored under `collection` in the file
+ */
+export class FileRepository<T extends { id: string }> implements Repository<T> {
+  private filePath: string;
+  private collection: string;
+
+  constructor(filePath: string, collection: string) {
+    this.filePath = path.resolve(filePath);
+    this.collection = collection;
+  }
+
+  loadAll(): T[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const contents = fs.readFileSync(this.filePath, 'utf8');
+    if (!contents.trim()) {
+      return [];
+    }
+
+    const data = JSON.parse(contents);
+    if (!Array.isArray(data[this.collection])) {
+      throw new Error(`Invalid ${this.collection} store at ${this.filePath}`);
+    }
+
+    return data[this.collection];
+  }
+
+  async saveAll(items: T[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file and rename so a crash never leaves a truncated store
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify({ [this.collection]: items }, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * File-backed order book for server-side order execution
+ */
+export class FileOrderRepository extends FileRepository<Order> {
+  constructor(filePath: string = CONFIG.ORDERS_STORE_PATH) {
+    super(filePath, 'orders');
+  }
+}
+
+/**
+ * File-backed store for recurring order schedules
+ */
+export class FileScheduleRepository extends FileRepository<RecurringSchedule> {
+  constructor(filePath: string = CONFIG.SCHEDULES_STORE_PATH) {
+    super(filePath, 'schedules');
+  }
+}
@@ -1,66 +1,85 @@
 // src/services/jupiterService.ts
 
-import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
-import { getAssociatedTokenAddress } from '@solana/spl-token';
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddress
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import { JupiterHttpTransport, type JupiterTransport } from './jupiterTransport';
+import { QuoteCache, type QuoteRequest } from './quoteCache';
+import { TransactionSender } from './transactionSender';
+import { decodeTransactionError, getInstructionProgramIds } from '@/utils/transactionErrors';
+import { computeSwapReceipt } from '@/utils/swapReceipt';
+import { measureDeposit, type DepositAccounts } from '@/utils/depositVerification';
 import { CONFIG } from '@/utils/constants';
+import { JupiterApiError, OrderError, getErrorMessage } from '@/utils/errors';
 import type { 
   JupiterQuote, 
   SwapTransaction, 
   PriorityFeeConfig,
+  QuoteCacheMetrics,
+  SwapMode,
+  SignerWallet,
+  SwapFailure,
+  SwapReceipt,
+  TransactionOutcome,
   TransactionResult 
 } from '@/types';
 
 export class JupiterService {
   private connection: Connection;
-  private baseUrl: string;
+  private transport: JupiterTransport;
+  private quoteCache: QuoteCache;
+  private sender: TransactionSender;
   
-  constructor(rpcEndpoint?: string) {
+  constructor(
+    rpcEndpoint?: string,
+    transport: JupiterTransport = new JupiterHttpTransport(),
+    quoteCache: QuoteCache = new QuoteCache()
+  ) {
     this.connection = new Connection(rpcEndpoint || CONFIG.RPC_ENDPOINT);
-    this.baseUrl = CONFIG.JUPITER_API_BASE;
+    this.transport = transport;
+    this.quoteCache = quoteCache;
+    this.sender = new TransactionSender(this.connection);
   }
 
   /**
-   * Get quote from Jupiter API
+   * Get quote from Jupiter API, served from the quote cache when a recent identical
+   * quote exists. Pass `fresh` to always hit the API. In ExactOut mode `amount` is the
+   * output to deliver.
    */
   async getQuote(
     inputMint: string,
     outputMint: string,
     amount: number,
     slippageBps: number = CONFIG.DEFAULT_SLIPPAGE,
-    platformFeeBps?: number
+    platformFeeBps?: number,
+    options: { fresh?: boolean; swapMode?: SwapMode } = {}
   ): Promise<JupiterQuote> {
-    try {
-      const params = new URLSearchParams({
-        inputMint,
-        outputMint,
-        amount: amount.toString(),
-        slippageBps: slippageBps.toString(),
-        restrictIntermediateTokens: 'true',
-      });
-
-      if (platformFeeBps && platformFeeBps > 0) {
-        params.append('platformFeeBps', platformFeeBps.toString());
-      }
+    const request = { inputMint, outputMint, amount, slippageBps, platformFeeBps, swapMode: options.swapMode };
 
-      const response = await fetch(`${this.baseUrl}/quote?${params}`);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-
-      const quote = await response.json();
-      
-      // Validate quote response
-      this.validateQuote(quote);
-      
-      return quote;
-    } catch (error: any) {
+    try {
+      return await this.quoteCache.get(request, () => this.fetchQuote(request), options);
+    } catch (error) {
       console.error('Jupiter quote error:', error);
-      throw new Error(`Failed to get quote: ${error.message}`);
+      // Typed transport errors carry the status and retryability callers act on
+      if (error instanceof JupiterApiError) throw error;
+      throw new Error(`Failed to get quote: ${getErrorMessage(error)}`);
     }
   }
 
+  getQuoteCacheMetrics(): QuoteCacheMetrics {
+    return this.quoteCache.getMetrics();
+  }
+
   /**
    * Create swap transaction
    */
@@ -80,7 +99,8 @@ export class JupiterService {
         quoteResponse: quote,
         userPublicKey: userPublicKey.toString(),
         dynamicComputeUnitLimit: options.dynamicComputeUnitLimit ?? true,
-        dynamicSlippage: options.dynamicSlippage ?? true,
+        // Dynamic slippage could raise an ExactOut swap's input above the max the user was shown
+        dynamicSlippage: options.dynamicSlippage ?? quote.swapMode !== 'ExactOut',
       };
 
       // Add priority fee configuration
@@ -107,70 +127,97 @@ export class JupiterService {
         swapRequest.destinationTokenAccount = options.destinationTokenAccount.toString();
       }
 
-      const response = await fetch(`${this.baseUrl}/swap`, {
+      return await this.transport.request<SwapTransaction>('/swap', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(swapRequest),
+        body: swapRequest
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Jupiter swap transaction error:', error);
-      throw new Error(`Failed to create swap transaction: ${error.message}`);
+      if (error instanceof JupiterApiError) throw error;
+      throw new Error(`Failed to create swap transaction: ${getErrorMessage(error)}`);
     }
   }
 
   /**
-   * Execute swap transaction
+   * Execute swap transaction, rebroadcasting until it confirms, fails on-chain or
+   * its blockhash expires. `outcome` tells the caller whether retrying is safe.
+   * Swaps that fail simulation are not signed or sent, and any failure before the
+   * broadcast (including simulation RPC errors) reports `not_sent`. `onSigned` runs before the
+   * first broadcast; if it throws, nothing is sent and the error propagates.
    */
   async executeSwap(
     wallet: any,
-    swapTransaction: SwapTransaction
+    swapTransaction: SwapTransaction,
+    options: {
+      simulate?: boolean;
+      onSigned?: (signature: string, lastValidBlockHeight: number) => Promise<void>;
+    } = {}
   ): Promise<TransactionResult> {
+    let signedTransaction: VersionedTransaction;
+    let programIds: string[] = [];
     try {
       // Deserialize the transaction
       const transactionBuf = Buffer.from(swapTransaction.swapTransaction, 'base64');
       const transaction = VersionedTransaction.deserialize(transactionBuf);
+      programIds = getInstructionProgramIds(transaction);
 
-      // Sign the transaction
-      const signedTransaction = await wallet.signTransaction(transaction);
-
-      // Send the transaction
-      const signature = await this.connection.sendTransaction(signedTransaction, {
-        maxRetries: CONFIG.MAX_RETRIES,
-        skipPreflight: true,
-      });
-
-      // Confirm the transaction
-      const confirmation = await this.connection.confirmTransaction({
-        signature,
-        blockhash: transaction.message.recentBlockhash,
-        lastValidBlockHeight: swapTransaction.lastValidBlockHeight,
-      }, 'confirmed');
+      // Jupiter simulates while building the transaction; don't send one it saw fail
+      if (swapTransaction.simulationError) {
+        return this.rejectSwap(decodeTransactionError(swapTransaction.simulationError, 'simulation', [], programIds));
+      }
 
-      if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+      if (options.simulate ?? CONFIG.SIMULATE_SWAPS) {
+        const failure = await this.simulateSwap(transaction);
+        if (failure) return this.rejectSwap(failure);
       }
 
-      return {
-        signature,
-        success: true,
-      };
+      // Sign the transaction
+      signedTransaction = await wallet.signTransaction(transaction);
     } catch (error) {
-      console.error('Swap execution error:', error);
+      console.error('Swap preparation error:', error);
       return {
         signature: '',
         success: false,
-        error: error.message
+        outcome: 'not_sent',
+        error: getErrorMessage(error)
       };
     }
+
+    // The signature is known before sending, so the outcome can always be looked up
+    const signature = bs58.encode(signedTransaction.signatures[0]);
+    await options.onSigned?.(signature, swapTransaction.lastValidBlockHeight);
+
+    const result = await this.sender.sendAndConfirm(
+      signedTransaction.serialize(),
+      signature,
+      swapTransaction.lastValidBlockHeight
+    );
+
+    const failure = result.err ? decodeTransactionError(result.err, 'onChain', [], programIds) : undefined;
+    if (result.outcome !== 'confirmed') {
+      console.error(`Swap ${signature} ${result.outcome}: ${failure?.message ?? result.error}`);
+    }
+
+    return {
+      signature,
+      success: result.outcome === 'confirmed',
+      outcome: result.outcome,
+      lastValidBlockHeight: swapTransaction.lastValidBlockHeight,
+      error: failure?.message ?? result.error,
+      failure
+    };
+  }
+
+  /**
+   * Look up how a previously sent transaction ended
+   */
+  async getTransactionOutcome(
+    signature: string,
+    lastValidBlockHeight: number
+  ): Promise<{ outcome: TransactionOutcome; error?: string; failure?: SwapFailure }> {
+    const { outcome, error, err } = await this.sender.checkOutcome(signature, lastValidBlockHeight);
+    const failure = err ? decodeTransactionError(err, 'onChain') : undefined;
+    return { outcome, error: failure?.message ?? error, failure };
   }
 
   /**
@@ -197,7 +244,88 @@ export class JupiterService {
   }
 
   /**
-   * Complete swap flow for orders
+   * Transfer tokens from the wallet to a recipient (used for refunds), rebroadcasting
+   * like executeSwap. `onSigned` runs before the first broadcast; if it throws, nothing
+   * is sent and the error propagates.
+   */
+  async transferToken(
+    wallet: SignerWallet,
+    tokenMint: string,
+    recipient: string,
+    amount: number,
+    options: { onSigned?: (signature: string, lastValidBlockHeight: number) => Promise<void> } = {}
+  ): Promise<TransactionResult> {
+    let signedTransaction: Transaction;
+    let lastValidBlockHeight: number;
+    try {
+      const mint = new PublicKey(tokenMint);
+      const recipientKey = new PublicKey(recipient);
+      const transaction = new Transaction();
+
+      if (tokenMint === 'So11111111111111111111111111111111111111112') {
+        // Native SOL
+        transaction.add(SystemProgram.transfer({
+          fromPubkey: wallet.publicKey,
+          toPubkey: recipientKey,
+          lamports: amount
+        }));
+      } else {
+        // SPL token, creating the recipient's token account if needed
+        const sourceAccount = await getAssociatedTokenAddress(mint, wallet.publicKey);
+        const destinationAccount = await getAssociatedTokenAddress(mint, recipientKey);
+
+        transaction.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            wallet.publicKey,
+            destinationAccount,
+            recipientKey,
+            mint
+          ),
+          createTransferInstruction(sourceAccount, destinationAccount, wallet.publicKey, amount)
+        );
+      }
+
+      const latest = await this.connection.getLatestBlockhash();
+      transaction.recentBlockhash = latest.blockhash;
+      transaction.feePayer = wallet.publicKey;
+      lastValidBlockHeight = latest.lastValidBlockHeight;
+
+      signedTransaction = await wallet.signTransaction(transaction);
+    } catch (error) {
+      console.error('Token transfer error:', error);
+      return {
+        signature: '',
+        success: false,
+        outcome: 'not_sent',
+        error: getErrorMessage(error)
+      };
+    }
+
+    const signature = bs58.encode(signedTransaction.signature!);
+    await options.onSigned?.(signature, lastValidBlockHeight);
+
+    const result = await this.sender.sendAndConfirm(signedTransaction.serialize(), signature, lastValidBlockHeight);
+
+    const failure = result.err
+      ? decodeTransactionError(result.err, 'onChain', [], getInstructionProgramIds(signedTransaction))
+      : undefined;
+    if (result.outcome !== 'confirmed') {
+      console.error(`Transfer ${signature} ${result.outcome}: ${failure?.message ?? result.error}`);
+    }
+
+    return {
+      signature,
+      success: result.outcome === 'confirmed',
+      outcome: result.outcome,
+      lastValidBlockHeight,
+      error: failure?.message ?? result.error,
+      failure
+    };
+  }
+
+  /**
+   * Complete swap flow for orders. `onSigned` is passed to executeSwap. Errors before the
+   * swap was recorded report `not_sent`; errors after it report `unknown`, since it may land.
    */
   async executeOrderSwap(
     wallet: any,
@@ -205,19 +333,32 @@ export class JupiterService {
       inputMint: string;
       outputMint: string;
       inputAmount: number;
+      swapMode?: SwapMode;
+      outputAmount?: number; // ExactOut only
       liquidityProvider: string;
       treasuryWallet: string;
       platformFeeBps: number;
-    }
+      quote?: JupiterQuote; // Pre-fetched quote; a fresh one is requested if omitted
+    },
+    options: { onSigned?: (signature: string, lastValidBlockHeight: number) => Promise<void> } = {}
   ): Promise<TransactionResult & { outputAmount?: string }> {
+    // Set once onSigned has recorded the swap; from then on it may be broadcast
+    let sent: { signature: string; lastValidBlockHeight: number } | undefined;
+
     try {
       // Get quote
-      const quote = await this.getQuote(
+      const exactOut = order.swapMode === 'ExactOut';
+      if (exactOut && !order.quote && !order.outputAmount) {
+        throw new Error('ExactOut swaps require an output amount');
+      }
+
+      const quote = order.quote ?? await this.getQuote(
         order.inputMint,
         order.outputMint,
-        order.inputAmount,
+        exactOut ? order.outputAmount! : order.inputAmount,
         CONFIG.DEFAULT_SLIPPAGE,
-        order.platformFeeBps
+        order.platformFeeBps,
+        { swapMode: order.swapMode }
       );
 
       // Get treasury token account for fees (input token)
@@ -243,22 +384,109 @@ export class JupiterService {
       );
 
       // Execute swap
-      const result = await this.executeSwap(wallet, swapTransaction);
+      const result = await this.executeSwap(wallet, swapTransaction, {
+        onSigned: async (signature, lastValidBlockHeight) => {
+          await options.onSigned?.(signature, lastValidBlockHeight);
+          sent = { signature, lastValidBlockHeight };
+        }
+      });
+      if (!result.success) {
+        return result;
+      }
+
+      // Report what actually arrived, falling back to the quote if the receipt is unavailable
+      const receipt = await this.getSwapReceipt(result.signature, quote, {
+        payer: wallet.publicKey.toString(),
+        recipient: order.liquidityProvider,
+        treasuryWallet: order.treasuryWallet
+      });
 
       return {
         ...result,
-        outputAmount: quote.outAmount
+        outputAmount: receipt ? receipt.outputAmount.toString() : quote.outAmount,
+        receipt
       };
     } catch (error) {
       console.error('Order swap execution failed:', error);
+
+      // The swap may be on-chain: report it as unconfirmed so it is resolved, never resent
+      if (sent) {
+        return {
+          signature: sent.signature,
+          success: false,
+          outcome: 'unknown',
+          lastValidBlockHeight: sent.lastValidBlockHeight,
+          error: getErrorMessage(error)
+        };
+      }
+
+      // Nothing was sent yet, so let the caller decide whether to retry or fail the order
+      if (error instanceof OrderError) throw error;
+
       return {
         signature: '',
         success: false,
-        error: error.message
+        outcome: 'not_sent',
+        error: getErrorMessage(error)
       };
     }
   }
 
+  /**
+   * Measure a confirmed swap's real output, treasury fee, network fee and slippage
+   * against `quote`. Returns undefined if the transaction cannot be fetched.
+   */
+  async getSwapReceipt(
+    signature: string,
+    quote: JupiterQuote,
+    accounts: { payer: string; recipient: string; treasuryWallet: string }
+  ): Promise<SwapReceipt | undefined> {
+    try {
+      const [outputTokenAccount, treasuryTokenAccount] = await Promise.all([
+        getAssociatedTokenAddress(new PublicKey(quote.outputMint), new PublicKey(accounts.recipient)),
+        getAssociatedTokenAddress(new PublicKey(quote.inputMint), new PublicKey(accounts.treasuryWallet))
+      ]);
+
+      for (let attempt = 1; attempt <= CONFIG.RECEIPT_FETCH_ATTEMPTS; attempt++) {
+        const transaction = await this.connection.getParsedTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        });
+
+        if (transaction) {
+          return computeSwapReceipt(transaction, quote, {
+            payer: accounts.payer,
+            outputTokenAccount: outputTokenAccount.toString(),
+            treasuryTokenAccount: treasuryTokenAccount.toString()
+          });
+        }
+
+        if (attempt < CONFIG.RECEIPT_FETCH_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, CONFIG.RECEIPT_FETCH_DELAY));
+        }
+      }
+
+      console.warn(`Transaction ${signature} not available; no swap receipt recorded`);
+    } catch (error) {
+      console.error(`Failed to build swap receipt for ${signature}:`, error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Measure the amount a confirmed deposit transaction moved from the sender to the
+   * recipient. Returns undefined if the transaction is not found at confirmed commitment.
+   */
+  async getDepositAmount(signature: string, accounts: DepositAccounts): Promise<number | undefined> {
+    const transaction = await this.connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+
+    return transaction ? measureDeposit(transaction, accounts) : undefined;
+  }
+
   /**
    * Get current network status
    */
@@ -281,6 +509,50 @@ export class JupiterService {
     }
   }
 
+  // Simulate an unsigned swap; returns the decoded failure, or null when it would succeed
+  private async simulateSwap(transaction: VersionedTransaction): Promise<SwapFailure | null> {
+    const { value } = await this.connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      commitment: 'confirmed'
+    });
+
+    return value.err ? decodeTransactionError(value.err, 'simulation', value.logs ?? [], getInstructionProgramIds(transaction)) : null;
+  }
+
+  private rejectSwap(failure: SwapFailure): TransactionResult {
+    console.error(`Swap rejected in simulation: ${failure.message} (${failure.raw})`);
+    return {
+      signature: '',
+      success: false,
+      outcome: 'not_sent',
+      error: failure.message,
+      failure
+    };
+  }
+
+  // Uncached quote request
+  private async fetchQuote(request: QuoteRequest): Promise<JupiterQuote> {
+    const params = new URLSearchParams({
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      amount: request.amount.toString(),
+      slippageBps: request.slippageBps.toString(),
+      swapMode: request.swapMode ?? 'ExactIn',
+      restrictIntermediateTokens: 'true',
+    });
+
+    if (request.platformFeeBps && request.platformFeeBps > 0) {
+      params.append('platformFeeBps', request.platformFeeBps.toString());
+    }
+
+    const quote = await this.transport.request<JupiterQuote>('/quote', { query: params });
+    
+    // Validate quote response
+    this.validateQuote(quote);
+    
+    return quote;
+  }
+
   /**
    * Validate quote response
    */
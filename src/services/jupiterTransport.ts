@@ -0,0 +1,169 @@
+// src/services/jupiterTransport.ts
+
+import { CircuitBreaker } from './circuitBreaker';
+import { CONFIG } from '@/utils/constants';
+import {
+  JupiterApiError,
+  JupiterBadRequestError,
+  JupiterNoRouteError,
+  JupiterRateLimitError,
+  JupiterUnavailableError,
+  getErrorMessage
+} from '@/utils/errors';
+
+// Jupiter error codes meaning no route exists for the pair and amount
+const NO_ROUTE_ERROR_CODES = ['COULD_NOT_FIND_ANY_ROUTE', 'NO_ROUTES_FOUND', 'TOKEN_NOT_TRADABLE'];
+
+export interface JupiterRequest {
+  method?: 'GET' | 'POST';
+  query?: URLSearchParams;
+  body?: unknown;
+}
+
+/**
+ * HTTP access to the Jupiter API. Implementations throw JupiterApiError subclasses.
+ */
+export interface JupiterTransport {
+  request<T>(path: string, request?: JupiterRequest): Promise<T>;
+}
+
+export interface JupiterHttpTransportOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  breaker?: CircuitBreaker;
+  fetch?: typeof fetch;
+}
+
+/**
+ * fetch-based transport with per-attempt timeouts, exponential backoff with jitter
+ * on 429/5xx and network errors, Retry-After support and a circuit breaker
+ */
+export class JupiterHttpTransport implements JupiterTransport {
+  private baseUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private breaker: CircuitBreaker;
+  private fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string = CONFIG.JUPITER_API_BASE, options: JupiterHttpTransportOptions = {}) {
+    this.baseUrl = baseUrl;
+    this.timeoutMs = options.timeoutMs ?? CONFIG.JUPITER_TIMEOUT;
+    this.maxRetries = options.maxRetries ?? CONFIG.JUPITER_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? CONFIG.JUPITER_RETRY_BASE_DELAY;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? CONFIG.JUPITER_RETRY_MAX_DELAY;
+    this.breaker = options.breaker ?? new CircuitBreaker(CONFIG.JUPITER_BREAKER_THRESHOLD, CONFIG.JUPITER_BREAKER_COOLDOWN);
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async request<T>(path: string, request: JupiterRequest = {}): Promise<T> {
+    const url = `${this.baseUrl}${path}${request.query ? `?${request.query}` : ''}`;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.breaker.allowRequest()) {
+        throw new JupiterUnavailableError(
+          `Jupiter API circuit open; retry in ${Math.ceil(this.breaker.getRetryAfter() / 1000)}s`
+        );
+      }
+
+      try {
+        const result = await this.attempt<T>(url, request);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const apiError = error as JupiterApiError;
+
+        // Only upstream health counts against the breaker; bad requests are our fault
+        if (apiError.retryable) {
+          this.breaker.recordFailure();
+        } else {
+          this.breaker.recordSuccess();
+        }
+
+        if (!apiError.retryable || attempt >= this.maxRetries) {
+          throw apiError;
+        }
+
+        const delay = this.getRetryDelay(attempt, apiError);
+        console.warn(`Jupiter ${path} failed (${apiError.message}); retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // One HTTP attempt, mapped onto the Jupiter error classes
+  private async attempt<T>(url: string, request: JupiterRequest): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method: request.method ?? 'GET',
+        headers: request.body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw new JupiterUnavailableError(
+        timedOut ? `Jupiter API timed out after ${this.timeoutMs}ms` : `Jupiter API unreachable: ${getErrorMessage(error)}`
+      );
+    }
+
+    // Error bodies are not always JSON
+    const text = await response.text();
+    let data: Record<string, unknown> | null = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      data = null;
+    }
+
+    if (response.ok) {
+      if (data === null) {
+        throw new JupiterUnavailableError('Jupiter API returned an invalid response body', response.status);
+      }
+      return data as T;
+    }
+
+    const message = typeof data?.error === 'string'
+      ? data.error
+      : `HTTP ${response.status}${text && !data ? `: ${text.slice(0, 200)}` : ''}`;
+
+    if (response.status === 429) {
+      throw new JupiterRateLimitError(`Jupiter API rate limited: ${message}`, this.parseRetryAfter(response));
+    }
+
+    if (response.status >= 500) {
+      throw new JupiterUnavailableError(`Jupiter API error: ${message}`, response.status);
+    }
+
+    if (NO_ROUTE_ERROR_CODES.includes(data?.errorCode as string) || /no route/i.test(message)) {
+      throw new JupiterNoRouteError(`No route found: ${message}`, response.status);
+    }
+
+    throw new JupiterBadRequestError(`Jupiter API rejected the request: ${message}`, response.status);
+  }
+
+  // Exponential backoff with jitter, honouring Retry-After when Jupiter sends one
+  private getRetryDelay(attempt: number, error: JupiterApiError): number {
+    if (error instanceof JupiterRateLimitError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.retryMaxDelayMs);
+    }
+
+    const maxDelay = Math.min(this.retryBaseDelayMs * Math.pow(2, attempt), this.retryMaxDelayMs);
+    return Math.round(maxDelay / 2 + Math.random() * (maxDelay / 2));
+  }
+
+  private parseRetryAfter(response: Response): number | undefined {
+    const header = response.headers.get('retry-after');
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,82 @@
+// src/services/limitOrderWatcher.ts
+
+import { CONFIG } from '@/utils/constants';
+import type { OrderManager } from './orderManger';
+import { SYSTEM_CALLER } from './authorization';
+import type { SignerWallet } from '@/types';
+
+/**
+ * Periodically re-quotes pending limit orders and executes those whose target is met
+ */
+export class LimitOrderWatcher {
+  private orderManager: OrderManager;
+  private wallet: SignerWallet;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking: boolean = false;
+
+  constructor(
+    orderManager: OrderManager,
+    wallet: SignerWallet,
+    intervalMs: number = CONFIG.LIMIT_ORDER_POLL_INTERVAL
+  ) {
+    this.orderManager = orderManager;
+    this.wallet = wallet;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start polling (no-op if already running)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.checkOnce();
+    }, this.intervalMs);
+
+    console.log(`Limit order watcher started (every ${this.intervalMs}ms)`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('Limit order watcher stopped');
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Check every pending limit order once. Returns the IDs of executed orders.
+   */
+  async checkOnce(): Promise<string[]> {
+    // Skip the tick if the previous round is still running
+    if (this.checking) return [];
+
+    this.checking = true;
+    const executed: string[] = [];
+
+    try {
+      for (const order of this.orderManager.getPendingLimitOrders(SYSTEM_CALLER)) {
+        try {
+          if (await this.orderManager.checkLimitOrder(order.id, this.wallet, SYSTEM_CALLER)) {
+            executed.push(order.id);
+          }
+        } catch (error) {
+          console.error(`Limit order check failed for ${order.id}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+
+    return executed;
+  }
+}
@@ -0,0 +1,232 @@
+// src/services/liquidityProviderRegistry.ts
+
+import { PublicKey } from '@solana/web3.js';
+import { CoalescedWriter, InMemoryRepository, type Repository } from './orderRepository';
+import { OrderError } from '@/utils/errors';
+import type { LiquidityProvider, LiquidityProviderStatus } from '@/types';
+
+export type LiquidityProviderParams = Pick<
+  LiquidityProvider,
+  'id' | 'name' | 'settlementAddress' | 'supportedOutputTokens' | 'minOrderSize' | 'maxOrderSize' | 'rate'
+> & Partial<Pick<LiquidityProvider, 'fiatCurrency'>>;
+
+/**
+ * Registry of liquidity providers, their pair support, size limits and published rates
+ */
+export class LiquidityProviderRegistry {
+  private providers: Map<string, LiquidityProvider> = new Map();
+  private repository: Repository<LiquidityProvider>;
+  private writer: CoalescedWriter<LiquidityProvider>;
+
+  constructor(repository: Repository<LiquidityProvider> = new InMemoryRepository<LiquidityProvider>()) {
+    this.repository = repository;
+    this.writer = new CoalescedWriter(repository, () => Array.from(this.providers.values()));
+
+    // Load persisted data
+    this.loadPersistedProviders();
+  }
+
+  /**
+   * Register a new provider (active immediately)
+   */
+  registerProvider(params: LiquidityProviderParams): LiquidityProvider {
+    this.validateProviderParams(params);
+
+    if (this.providers.has(params.id)) {
+      throw new OrderError(`Liquidity provider ${params.id} already registered`, 'INVALID_PARAMS');
+    }
+
+    const now = Date.now();
+    const provider: LiquidityProvider = {
+      ...params,
+      supportedOutputTokens: Array.from(new Set(params.supportedOutputTokens)),
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.providers.set(provider.id, provider);
+    this.persistProviders();
+
+    console.log(`Liquidity provider ${provider.name} (${provider.id}) registered`);
+    return provider;
+  }
+
+  /**
+   * Update a provider's settlement address, pairs, limits or rate
+   */
+  updateProvider(
+    providerId: string,
+    updates: Partial<Omit<LiquidityProviderParams, 'id'>>
+  ): LiquidityProvider {
+    const provider = this.getProviderOrThrow(providerId);
+    const updated: LiquidityProvider = { ...provider, ...updates, id: provider.id, updatedAt: Date.now() };
+
+    this.validateProviderParams(updated);
+    this.providers.set(providerId, updated);
+    this.persistProviders();
+
+    return updated;
+  }
+
+  /**
+   * Activate or suspend a provider
+   */
+  setProviderStatus(providerId: string, status: LiquidityProviderStatus): LiquidityProvider {
+    const provider = this.getProviderOrThrow(providerId);
+    provider.status = status;
+    provider.updatedAt = Date.now();
+    this.persistProviders();
+
+    console.log(`Liquidity provider ${providerId} ${status}`);
+    return provider;
+  }
+
+  getProvider(providerId: string): LiquidityProvider | undefined {
+    return this.providers.get(providerId);
+  }
+
+  getProviders(): LiquidityProvider[] {
+    return Array.from(this.providers.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get active providers supporting an output token (and order size and fiat currency,
+   * when known), best rate first
+   */
+  getEligibleProviders(outputToken: string, outputAmount?: number, fiatCurrency?: string): LiquidityProvider[] {
+    return this.getProviders()
+      .filter(provider =>
+        this.getIneligibilityReason(provider, outputToken, outputAmount, fiatCurrency) === null
+      )
+      .sort((a, b) => b.rate - a.rate);
+  }
+
+  /**
+   * Pick the eligible provider with the best published rate
+   */
+  selectBestProvider(outputToken: string, outputAmount: number, fiatCurrency?: string): LiquidityProvider {
+    const [best] = this.getEligibleProviders(outputToken, outputAmount, fiatCurrency);
+    if (!best) {
+      throw new OrderError('No eligible liquidity provider for this order', 'LP_NOT_ELIGIBLE');
+    }
+    return best;
+  }
+
+  /**
+   * Throw unless the provider can take an order for this output token (and size and
+   * fiat currency, when known)
+   */
+  assertEligible(
+    providerId: string,
+    outputToken: string,
+    outputAmount?: number,
+    fiatCurrency?: string
+  ): LiquidityProvider {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new OrderError(`Unknown liquidity provider: ${providerId}`, 'LP_NOT_FOUND');
+    }
+
+    const reason = this.getIneligibilityReason(provider, outputToken, outputAmount, fiatCurrency);
+    if (reason) {
+      throw new OrderError(`Liquidity provider ${provider.name} is not eligible: ${reason}`, 'LP_NOT_ELIGIBLE');
+    }
+
+    return provider;
+  }
+
+  // Private helper methods
+  private getIneligibilityReason(
+    provider: LiquidityProvider,
+    outputToken: string,
+    outputAmount?: number,
+    fiatCurrency?: string
+  ): string | null {
+    if (provider.status !== 'active') {
+      return 'provider is suspended';
+    }
+
+    if (!provider.supportedOutputTokens.includes(outputToken)) {
+      return 'output token not supported';
+    }
+
+    if (outputAmount !== undefined && outputAmount < provider.minOrderSize) {
+      return `order below minimum size ${provider.minOrderSize}`;
+    }
+
+    if (outputAmount !== undefined && outputAmount > provider.maxOrderSize) {
+      return `order above maximum size ${provider.maxOrderSize}`;
+    }
+
+    if (fiatCurrency !== undefined && provider.fiatCurrency !== fiatCurrency) {
+      return `no ${fiatCurrency} payout rate`;
+    }
+
+    return null;
+  }
+
+  private getProviderOrThrow(providerId: string): LiquidityProvider {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new OrderError(`Unknown liquidity provider: ${providerId}`, 'LP_NOT_FOUND');
+    }
+    return provider;
+  }
+
+  private validateProviderParams(params: LiquidityProviderParams): void {
+    if (!params.name) {
+      throw new OrderError('Provider name is required', 'INVALID_PARAMS');
+    }
+
+    for (const [address, label] of [[params.id, 'provider'], [params.settlementAddress, 'settlement']]) {
+      try {
+        new PublicKey(address);
+      } catch {
+        throw new OrderError(`Invalid ${label} address`, 'INVALID_PARAMS');
+      }
+    }
+
+    if (!Array.isArray(params.supportedOutputTokens) || params.supportedOutputTokens.length === 0) {
+      throw new OrderError('At least one supported output token is required', 'INVALID_PARAMS');
+    }
+
+    for (const mint of params.supportedOutputTokens) {
+      try {
+        new PublicKey(mint);
+      } catch {
+        throw new OrderError(`Invalid supported output token mint: ${String(mint)}`, 'INVALID_PARAMS');
+      }
+    }
+
+    if (!Number.isFinite(params.minOrderSize) || params.minOrderSize < 0 ||
+      !Number.isFinite(params.maxOrderSize) || params.maxOrderSize < params.minOrderSize) {
+      throw new OrderError('Order size limits must satisfy 0 <= min <= max', 'INVALID_PARAMS');
+    }
+
+    if (!Number.isFinite(params.rate) || params.rate <= 0) {
+      throw new OrderError('Rate must be greater than 0', 'INVALID_PARAMS');
+    }
+
+    if (params.fiatCurrency !== undefined && !/^[A-Z]{3}$/.test(params.fiatCurrency)) {
+      throw new OrderError('Fiat currency must be a 3-letter ISO 4217 code', 'INVALID_PARAMS');
+    }
+  }
+
+  // Persistence methods (delegated to the configured repository)
+  private persistProviders(): void {
+    this.writer.write().catch(error => {
+      console.error('Failed to persist liquidity providers:', error);
+    });
+  }
+
+  private loadPersistedProviders(): void {
+    try {
+      this.providers = new Map(this.repository.loadAll().map(provider => [provider.id, provider]));
+    } catch (error) {
+      console.error('Failed to load persisted liquidity providers:', error);
+      this.providers = new Map();
+    }
+  }
+}
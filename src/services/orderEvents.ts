@@ -0,0 +1,80 @@
+// src/services/orderEvents.ts
+
+import type { Order, OrderStatusChange } from '@/types';
+
+// Payloads for each order lifecycle event
+export interface OrderEventMap {
+  orderCreated: { order: Order };
+  quoteRefreshed: { order: Order; previousOutputAmount: number };
+  orderFulfilled: { order: Order; signature: string };
+  orderFailed: { order: Order; error: string };
+  orderCancelled: { order: Order };
+  orderExpired: { order: Order };
+  orderRefunded: { order: Order; signature: string };
+  statusChanged: { order: Order; change: OrderStatusChange };
+}
+
+export type OrderEventName = keyof OrderEventMap;
+
+export const ORDER_EVENT_NAMES: OrderEventName[] = [
+  'orderCreated',
+  'quoteRefreshed',
+  'orderFulfilled',
+  'orderFailed',
+  'orderCancelled',
+  'orderExpired',
+  'orderRefunded',
+  'statusChanged'
+];
+
+export type OrderEventListener<K extends OrderEventName> = (payload: OrderEventMap[K]) => void;
+
+/**
+ * Typed emitter for order lifecycle events.
+ * Listener errors are logged and never interrupt order processing.
+ */
+export class OrderEventEmitter {
+  private listeners: Map<OrderEventName, Set<unknown>> = new Map();
+
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<K extends OrderEventName>(event: K, listener: OrderEventListener<K>): () => void {
+    this.getListeners(event).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends OrderEventName>(event: K, listener: OrderEventListener<K>): () => void {
+    const unsubscribe = this.on(event, payload => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends OrderEventName>(event: K, listener: OrderEventListener<K>): void {
+    this.getListeners(event).delete(listener);
+  }
+
+  emit<K extends OrderEventName>(event: K, payload: OrderEventMap[K]): void {
+    for (const listener of Array.from(this.getListeners(event))) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Order event listener for ${event} failed:`, error);
+      }
+    }
+  }
+
+  private getListeners<K extends OrderEventName>(event: K): Set<OrderEventListener<K>> {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    return listeners as Set<OrderEventListener<K>>;
+  }
+}
@@ -0,0 +1,90 @@
+// src/services/orderExpirySweeper.ts
+
+import { CONFIG } from '@/utils/constants';
+import type { OrderManager } from './orderManger';
+import { SYSTEM_CALLER } from './authorization';
+import { OrderStatus } from '@/types';
+import type { SignerWallet } from '@/types';
+
+/**
+ * Periodically moves pending orders past their expiresAt to EXPIRED,
+ * optionally refunding expired and cancelled orders with deposited funds and the
+ * unspent deposit of fulfilled ones
+ */
+export class OrderExpirySweeper {
+  private orderManager: OrderManager;
+  private intervalMs: number;
+  private refundWallet?: SignerWallet;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping: boolean = false;
+
+  constructor(
+    orderManager: OrderManager,
+    intervalMs: number = CONFIG.EXPIRY_SWEEP_INTERVAL,
+    refundWallet?: SignerWallet
+  ) {
+    this.orderManager = orderManager;
+    this.intervalMs = intervalMs;
+    this.refundWallet = refundWallet;
+  }
+
+  /**
+   * Start sweeping (no-op if already running)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.sweepOnce();
+    }, this.intervalMs);
+
+    console.log(`Order expiry sweeper started (every ${this.intervalMs}ms)`);
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('Order expiry sweeper stopped');
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Run one sweep. Returns the IDs of orders expired in this run.
+   */
+  async sweepOnce(): Promise<string[]> {
+    // Skip the tick if the previous sweep is still refunding
+    if (this.sweeping) return [];
+
+    this.sweeping = true;
+    try {
+      const expired = await this.orderManager.expireStaleOrders(SYSTEM_CALLER);
+
+      if (this.refundWallet) {
+        // Includes orders whose refund failed on an earlier sweep; failed orders are
+        // left to an operator, who may want to look at them first
+        const refundable = this.orderManager.getRefundableOrders(SYSTEM_CALLER)
+          .filter(order => order.status !== OrderStatus.FAILED);
+
+        for (const order of refundable) {
+          try {
+            await this.orderManager.refundOrder(order.id, this.refundWallet, SYSTEM_CALLER);
+          } catch (error) {
+            console.error(`Refund of ${order.status} order ${order.id} failed:`, error);
+          }
+        }
+      }
+
+      return expired;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
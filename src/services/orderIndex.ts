@@ -0,0 +1,103 @@
+// src/services/orderIndex.ts
+
+import type { Order } from '@/types';
+
+export type IndexedOrderField =
+  | 'creator'
+  | 'liquidityProvider'
+  | 'status'
+  | 'inputToken'
+  | 'outputToken'
+  | 'signature';
+
+// Index keys for an order; transaction, deposit and refund signatures share one index
+function getIndexKeys(order: Order): [IndexedOrderField, string][] {
+  const keys: [IndexedOrderField, string][] = [
+    ['creator', order.creator],
+    ['liquidityProvider', order.liquidityProvider],
+    ['status', order.status],
+    ['inputToken', order.inputToken],
+    ['outputToken', order.outputToken]
+  ];
+
+  for (const signature of [order.transactionSignature, order.depositSignature, order.refundSignature]) {
+    if (signature) keys.push(['signature', signature]);
+  }
+
+  return keys;
+}
+
+/**
+ * Secondary indexes over the order book, mapping field values to order IDs
+ */
+export class OrderIndex {
+  private indexes: Map<IndexedOrderField, Map<string, Set<string>>> = new Map();
+  private indexedKeys: Map<string, [IndexedOrderField, string][]> = new Map();
+
+  /**
+   * Index an order, replacing any entries from its previous state
+   */
+  update(order: Order): void {
+    this.remove(order.id);
+
+    const keys = getIndexKeys(order);
+    for (const [field, value] of keys) {
+      let index = this.indexes.get(field);
+      if (!index) {
+        index = new Map();
+        this.indexes.set(field, index);
+      }
+
+      let ids = index.get(value);
+      if (!ids) {
+        ids = new Set();
+        index.set(value, ids);
+      }
+      ids.add(order.id);
+    }
+
+    this.indexedKeys.set(order.id, keys);
+  }
+
+  remove(orderId: string): void {
+    const keys = this.indexedKeys.get(orderId);
+    if (!keys) return;
+
+    for (const [field, value] of keys) {
+      const ids = this.indexes.get(field)?.get(value);
+      ids?.delete(orderId);
+      if (ids?.size === 0) this.indexes.get(field)!.delete(value);
+    }
+
+    this.indexedKeys.delete(orderId);
+  }
+
+  /**
+   * Rebuild the indexes from scratch
+   */
+  rebuild(orders: Iterable<Order>): void {
+    this.clear();
+    for (const order of orders) {
+      this.update(order);
+    }
+  }
+
+  clear(): void {
+    this.indexes.clear();
+    this.indexedKeys.clear();
+  }
+
+  /**
+   * IDs of orders matching any of the values of a field
+   */
+  lookup(field: IndexedOrderField, values: string[]): Set<string> {
+    const index = this.indexes.get(field);
+    const ids = new Set<string>();
+
+    for (const value of values) {
+      index?.get(value)?.forEach(id => ids.add(id));
+    }
+
+    return ids;
+  }
+}
@@ -0,0 +1,247 @@
+// src/services/orderManger.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { OrderManager } from './orderManger';
+import { InMemoryOrderRepository } from './orderRepository';
+import { SYSTEM_CALLER } from './authorization';
+import { SUPPORTED_TOKENS } from '@/utils/constants';
+import { OrderStatus } from '@/types';
+import type { Caller, JupiterQuote, SignerWallet } from '@/types';
+
+const jupiter = vi.hoisted(() => ({
+  getQuote: vi.fn(),
+  getDepositAmount: vi.fn(),
+  executeOrderSwap: vi.fn(),
+  transferToken: vi.fn(),
+  getTransactionOutcome: vi.fn(),
+  getSwapReceipt: vi.fn()
+}));
+
+vi.mock('./jupiterService', () => ({
+  JupiterService: class {
+    constructor() {
+      return jupiter;
+    }
+  }
+}));
+
+const USDC = SUPPORTED_TOKENS.USDC.mint;
+const SOL = SUPPORTED_TOKENS.SOL.mint;
+const treasury = Keypair.generate().publicKey.toString();
+const depositWallet = Keypair.generate().publicKey.toString();
+const liquidityProvider = Keypair.generate().publicKey.toString();
+const executor = Keypair.generate();
+const wallet = { publicKey: executor.publicKey } as SignerWallet;
+
+function quote(overrides: Partial<JupiterQuote> = {}): JupiterQuote {
+  return {
+    inputMint: USDC,
+    inAmount: '1000000',
+    outputMint: SOL,
+    outAmount: '5000000',
+    otherAmountThreshold: '4975000',
+    swapMode: 'ExactIn',
+    slippageBps: 50,
+    platformFee: null,
+    priceImpactPct: '0',
+    routePlan: [],
+    contextSlot: 1,
+    timeTaken: 0,
+    ...overrides
+  };
+}
+
+function userCaller(): Caller {
+  return { publicKey: Keypair.generate().publicKey.toString(), roles: ['user'] };
+}
+
+function createManager(): OrderManager {
+  return new OrderManager(undefined, 10, treasury, new InMemoryOrderRepository(), undefined, undefined, depositWallet);
+}
+
+describe('OrderManager refunds', () => {
+  let manager: OrderManager;
+  let creator: Caller;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    jupiter.getQuote.mockResolvedValue(quote());
+    jupiter.getDepositAmount.mockResolvedValue(1_000_000);
+    jupiter.transferToken.mockResolvedValue({ signature: 'refund-sig', success: true, outcome: 'confirmed' });
+
+    manager = createManager();
+    creator = userCaller();
+  });
+
+  const createOrder = (depositSignature?: string) => manager.createOrder({
+    inputToken: USDC,
+    outputToken: SOL,
+    inputAmount: 1_000_000,
+    liquidityProvider,
+    depositSignature
+  }, creator);
+
+  it('rejects a deposit below the order input', async () => {
+    jupiter.getDepositAmount.mockResolvedValue(999_999);
+
+    await expect(createOrder('deposit-sig')).rejects.toMatchObject({ code: 'DEPOSIT_INVALID' });
+  });
+
+  it('rejects a deposit signature already used by another order', async () => {
+    await createOrder('deposit-sig');
+
+    await expect(createOrder('deposit-sig')).rejects.toMatchObject({ code: 'DEPOSIT_INVALID' });
+  });
+
+  it('does not refund a cancelled order without a deposit', async () => {
+    const orderId = await createOrder();
+    await manager.cancelOrder(orderId, creator);
+
+    const order = manager.getOrder(orderId, creator)!;
+    expect(manager.isRefundEligible(order)).toBe(false);
+    await expect(manager.refundOrder(orderId, wallet, creator)).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(jupiter.transferToken).not.toHaveBeenCalled();
+  });
+
+  it('refunds the verified deposit of a cancelled order', async () => {
+    const orderId = await createOrder('deposit-sig');
+    await manager.cancelOrder(orderId, creator);
+
+    expect(manager.getRefundableOrders(SYSTEM_CALLER).map(order => order.id)).toEqual([orderId]);
+
+    const signature = await manager.refundOrder(orderId, wallet, creator);
+
+    expect(signature).toBe('refund-sig');
+    expect(jupiter.transferToken).toHaveBeenCalledWith(wallet, USDC, creator.publicKey, 1_000_000, expect.anything());
+    const order = manager.getOrder(orderId, creator)!;
+    expect(order.status).toBe(OrderStatus.REFUNDED);
+    expect(manager.isRefundEligible(order)).toBe(false);
+  });
+
+  it('refunds a failed order once', async () => {
+    const orderId = await createOrder('deposit-sig');
+    jupiter.executeOrderSwap.mockResolvedValue({ signature: 'swap-sig', success: false, outcome: 'failed', error: 'Slippage' });
+
+    await expect(manager.executeOrder(orderId, wallet, SYSTEM_CALLER)).rejects.toMatchObject({ code: 'EXECUTION_FAILED' });
+    await manager.refundOrder(orderId, wallet, creator);
+
+    await expect(manager.refundOrder(orderId, wallet, creator)).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(jupiter.transferToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('settles an unconfirmed refund before sending another', async () => {
+    const orderId = await createOrder('deposit-sig');
+    await manager.cancelOrder(orderId, creator);
+    jupiter.transferToken.mockImplementationOnce(async (_wallet, _mint, _to, _amount, options) => {
+      await options.onSigned('refund-sig', 100);
+      return { signature: 'refund-sig', success: false, outcome: 'unknown' };
+    });
+
+    await expect(manager.refundOrder(orderId, wallet, creator)).rejects.toMatchObject({ code: 'TRANSACTION_UNCONFIRMED' });
+
+    jupiter.getTransactionOutcome.mockResolvedValue({ outcome: 'confirmed' });
+    await expect(manager.refundOrder(orderId, wallet, creator)).resolves.toBe('refund-sig');
+    expect(jupiter.transferToken).toHaveBeenCalledTimes(1);
+    expect(manager.getOrder(orderId, creator)!.status).toBe(OrderStatus.REFUNDED);
+  });
+
+  it('does not refund a fulfilled order that spent its whole deposit', async () => {
+    const orderId = await createOrder('deposit-sig');
+    jupiter.executeOrderSwap.mockResolvedValue({ signature: 'swap-sig', success: true, outputAmount: '5000000' });
+
+    await manager.executeOrder(orderId, wallet, SYSTEM_CALLER);
+
+    const order = manager.getOrder(orderId, creator)!;
+    expect(order.status).toBe(OrderStatus.FULFILLED);
+    expect(manager.isRefundEligible(order)).toBe(false);
+  });
+});
+
+describe('OrderManager ExactOut deposits', () => {
+  let manager: OrderManager;
+  let creator: Caller;
+
+  // Delivers exactly 5 SOL for at most 1 USDC
+  const exactOutQuote = quote({ swapMode: 'ExactOut', inAmount: '990000', otherAmountThreshold: '1000000' });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    jupiter.getQuote.mockResolvedValue(exactOutQuote);
+    jupiter.getDepositAmount.mockResolvedValue(1_000_000);
+    jupiter.transferToken.mockResolvedValue({ signature: 'refund-sig', success: true, outcome: 'confirmed' });
+
+    manager = createManager();
+    creator = userCaller();
+  });
+
+  const createExactOutOrder = () => manager.createOrder({
+    inputToken: USDC,
+    outputToken: SOL,
+    swapMode: 'ExactOut',
+    outputAmount: 5_000_000,
+    liquidityProvider,
+    depositSignature: 'deposit-sig'
+  }, creator);
+
+  const fulfil = (inputAmount?: number) => jupiter.executeOrderSwap.mockResolvedValue({
+    signature: 'swap-sig',
+    success: true,
+    outputAmount: '5000000',
+    receipt: { outputAmount: 5_000_000, quotedOutputAmount: 5_000_000, inputAmount, quotedInputAmount: 990_000 }
+  });
+
+  it('requires a deposit covering the quoted maximum input', async () => {
+    jupiter.getDepositAmount.mockResolvedValue(990_000);
+
+    await expect(createExactOutOrder()).rejects.toMatchObject({ code: 'DEPOSIT_INVALID' });
+  });
+
+  it('refunds the part of the deposit the swap did not spend', async () => {
+    const orderId = await createExactOutOrder();
+    fulfil(970_000);
+
+    await manager.executeOrder(orderId, wallet, SYSTEM_CALLER);
+
+    const order = manager.getOrder(orderId, creator)!;
+    expect(order.status).toBe(OrderStatus.FULFILLED);
+    expect(order.depositSurplus).toBe(30_000);
+    expect(manager.isRefundEligible(order)).toBe(true);
+
+    await manager.refundOrder(orderId, wallet, creator);
+
+    expect(jupiter.transferToken).toHaveBeenCalledWith(wallet, USDC, creator.publicKey, 30_000, expect.anything());
+    expect(order.status).toBe(OrderStatus.FULFILLED);
+    expect(order.refundSignature).toBe('refund-sig');
+    expect(manager.isRefundEligible(order)).toBe(false);
+  });
+
+  it('assumes the maximum input was spent when the receipt cannot measure it', async () => {
+    jupiter.getDepositAmount.mockResolvedValue(1_200_000);
+    const orderId = await createExactOutOrder();
+    fulfil(undefined);
+
+    await manager.executeOrder(orderId, wallet, SYSTEM_CALLER);
+
+    expect(manager.getOrder(orderId, creator)!.depositSurplus).toBe(200_000);
+  });
+
+  it('has no surplus when the swap spent the whole deposit', async () => {
+    const orderId = await createExactOutOrder();
+    fulfil(1_000_000);
+
+    await manager.executeOrder(orderId, wallet, SYSTEM_CALLER);
+
+    const order = manager.getOrder(orderId, creator)!;
+    expect(order.depositSurplus).toBeUndefined();
+    expect(manager.isRefundEligible(order)).toBe(false);
+  });
+
+  it('refuses to execute when the fresh quote may spend more than was deposited', async () => {
+    const orderId = await createExactOutOrder();
+    jupiter.getQuote.mockResolvedValue({ ...exactOutQuote, otherAmountThreshold: '1000001' });
+
+    await expect(manager.executeOrder(orderId, wallet, SYSTEM_CALLER)).rejects.toMatchObject({ code: 'QUOTE_DRIFT' });
+    expect(jupiter.executeOrderSwap).not.toHaveBeenCalled();
+  });
+});
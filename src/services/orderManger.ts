@@ -2,41 +2,219 @@
 
 import { PublicKey } from '@solana/web3.js';
 import { JupiterService } from './jupiterService';
-import { CONFIG } from '@/utils/constants';
+import {
+  CoalescedWriter,
+  LocalStorageOrderRepository,
+  type OrderRepository
+} from './orderRepository';
+import { CONFIG, STATS_WINDOWS, getTokenByMint } from '@/utils/constants';
+import { JupiterApiError, OrderError, getErrorCode, getErrorMessage } from '@/utils/errors';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import {
+  compareOrders,
+  decodeOrderCursor,
+  encodeOrderCursor,
+  isAfterCursor,
+  matchesOrderQuery
+} from '@/utils/orderQuery';
+import { computeFiatAmount, isMaskedFiatRecipient, redactOrder, validateFiatDetails } from '@/utils/fiat';
+import {
+  createOrderExport,
+  ordersToCsv,
+  parseOrderImport,
+  validateOrderRecord
+} from '@/utils/orderExport';
+import { SYSTEM_ACTOR, transitionOrder } from './orderStateMachine';
+import {
+  hasRole,
+  requireOrderAccess,
+  requireOrderCreator,
+  requireRole
+} from './authorization';
+import {
+  OrderEventEmitter,
+  type OrderEventListener,
+  type OrderEventName
+} from './orderEvents';
+import type { PriceSource } from './priceSource';
+import type { LiquidityProviderRegistry } from './liquidityProviderRegistry';
+import { OrderIndex } from './orderIndex';
+import type { TokenBucketRateLimiter } from './rateLimiter';
+import { OrderStatus } from '@/types';
 import type { 
+  BatchOrderResult,
+  Caller,
+  FiatPayout,
+  ImportConflictMode,
+  ImportReport,
+  JupiterQuote,
+  MintVolumeStats,
   Order, 
-  OrderStatus, 
   OrderCreationParams, 
+  OrderDeposit,
+  OrderPage,
+  OrderQuery,
   OrderStats,
-  JupiterQuote 
+  QuoteCacheMetrics,
+  RefundResult,
+  SignerWallet,
+  StatsWindow,
+  SwapFailure,
+  SwapMode,
+  SwapReceipt,
+  TargetRate,
+  TransactionOutcome,
+  TransactionResult,
+  VolumeStats
 } from '@/types';
 
+// Statuses whose verified deposit is returned to the creator
+const REFUNDABLE_STATUSES: OrderStatus[] = [OrderStatus.FAILED, OrderStatus.EXPIRED, OrderStatus.CANCELLED];
+
 export class OrderManager {
   private orders: Map<string, Order> = new Map();
+  private index: OrderIndex = new OrderIndex();
   private jupiterService: JupiterService;
   private protocolFeeBps: number;
   private treasuryWallet: string;
-  private orderIdCounter: number = 0;
+  private repository: OrderRepository;
+  private writer: CoalescedWriter<Order>;
+  private refundsInFlight: Set<string> = new Set();
+  private creationsInFlight: Map<string, Promise<string>> = new Map();
+  private executionsInFlight: Set<string> = new Set();
+  private events: OrderEventEmitter = new OrderEventEmitter();
+  private lpRegistry?: LiquidityProviderRegistry;
+  private rateLimiter?: TokenBucketRateLimiter;
+  private depositWallet: string;
+  private depositClaims: ((signature: string) => boolean)[] = [];
+  private creationsByCreator: Map<string, number> = new Map();
 
   constructor(
     rpcEndpoint?: string,
     protocolFeeBps: number = CONFIG.PROTOCOL_FEE_BPS,
-    treasuryWallet: string = CONFIG.TREASURY_WALLET
+    treasuryWallet: string = CONFIG.TREASURY_WALLET,
+    repository: OrderRepository = new LocalStorageOrderRepository(),
+    lpRegistry?: LiquidityProviderRegistry,
+    rateLimiter?: TokenBucketRateLimiter,
+    depositWallet: string = CONFIG.DEPOSIT_WALLET
   ) {
     this.jupiterService = new JupiterService(rpcEndpoint);
     this.protocolFeeBps = protocolFeeBps;
     this.treasuryWallet = treasuryWallet;
+    this.repository = repository;
+    this.writer = new CoalescedWriter(repository, () => Array.from(this.orders.values()));
+    this.lpRegistry = lpRegistry;
+    this.rateLimiter = rateLimiter;
+    this.depositWallet = depositWallet;
     
     // Load persisted data
     this.loadPersistedOrders();
   }
 
   /**
-   * Create a new order
+   * Subscribe to order lifecycle events. Returns an unsubscribe function.
+   */
+  on<K extends OrderEventName>(event: K, listener: OrderEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Create a new order owned by the caller.
+   * Calls repeating a creator's idempotency key within CONFIG.IDEMPOTENCY_WINDOW
+   * return the original order ID instead of creating another order.
+   * New orders are subject to the per-wallet rate limit and pending order cap.
    */
   async createOrder(
     params: OrderCreationParams,
-    userPublicKey: PublicKey
+    caller: Caller
+  ): Promise<string> {
+    requireRole(caller, 'user', 'creating orders');
+
+    const creator = caller.publicKey;
+    if (!params.idempotencyKey) {
+      return this.createLimitedOrder(params, creator);
+    }
+
+    const existing = this.findOrderByIdempotencyKey(creator, params.idempotencyKey);
+    if (existing) {
+      console.log(`Idempotent replay of order ${existing.id}`);
+      return existing.id;
+    }
+
+    // Concurrent duplicates share the creation already in progress
+    const scopedKey = `${creator}:${params.idempotencyKey}`;
+    const inFlight = this.creationsInFlight.get(scopedKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const creation = this.createLimitedOrder(params, creator)
+      .finally(() => this.creationsInFlight.delete(scopedKey));
+    this.creationsInFlight.set(scopedKey, creation);
+
+    return creation;
+  }
+
+  /**
+   * Create a recurring schedule's child order for its creator (admin). The creator authorized
+   * and funded every slice up front, so the per-wallet creation limits do not apply.
+   */
+  async createScheduledOrder(
+    params: OrderCreationParams & { scheduleId: string },
+    creator: string,
+    caller: Caller
+  ): Promise<string> {
+    requireRole(caller, 'admin', 'creating scheduled orders');
+
+    const existing = params.idempotencyKey && this.findOrderByIdempotencyKey(creator, params.idempotencyKey);
+    if (existing) {
+      return existing.id;
+    }
+
+    return this.createNewOrder(params, creator);
+  }
+
+  /**
+   * Number of pending orders a creator holds, including creations still in progress
+   */
+  getPendingOrderCount(creator: string): number {
+    const pending = this.index.lookup('status', [OrderStatus.PENDING]);
+    let count = this.creationsByCreator.get(creator) ?? 0;
+
+    for (const orderId of this.index.lookup('creator', [creator])) {
+      if (pending.has(orderId)) count++;
+    }
+
+    return count;
+  }
+
+  // Apply abuse limits before any quote is requested, then create the order
+  private async createLimitedOrder(params: OrderCreationParams, creator: string): Promise<string> {
+    if (this.getPendingOrderCount(creator) >= CONFIG.MAX_PENDING_ORDERS_PER_CREATOR) {
+      throw new OrderError(
+        `Too many pending orders: at most ${CONFIG.MAX_PENDING_ORDERS_PER_CREATOR} per wallet`,
+        'PENDING_ORDER_LIMIT'
+      );
+    }
+
+    this.rateLimiter?.consume(creator);
+
+    this.creationsByCreator.set(creator, (this.creationsByCreator.get(creator) ?? 0) + 1);
+    try {
+      return await this.createNewOrder(params, creator);
+    } finally {
+      const remaining = (this.creationsByCreator.get(creator) ?? 1) - 1;
+      if (remaining > 0) {
+        this.creationsByCreator.set(creator, remaining);
+      } else {
+        this.creationsByCreator.delete(creator);
+      }
+    }
+  }
+
+  private async createNewOrder(
+    params: OrderCreationParams,
+    creator: string
   ): Promise<string> {
     try {
       // Validate input parameters
@@ -44,20 +222,28 @@ export class OrderManager {
 
       // Check if treasury wallet is configured
       if (!this.treasuryWallet) {
-        throw new Error('Treasury wallet not configured');
+        throw new OrderError('Treasury wallet not configured', 'CONFIGURATION_ERROR');
       }
 
       // Get quote from Jupiter
+      const swapMode: SwapMode = params.swapMode ?? 'ExactIn';
       const quote = await this.jupiterService.getQuote(
         params.inputToken,
         params.outputToken,
-        params.inputAmount,
+        swapMode === 'ExactOut' ? params.outputAmount! : params.inputAmount!,
         50, // 0.5% slippage
-        this.protocolFeeBps
+        this.protocolFeeBps,
+        { swapMode }
       );
 
-      // Calculate protocol fee in input token terms
-      const protocolFee = (params.inputAmount * this.protocolFeeBps) / 10000;
+      // ExactOut orders spend whatever the route needs, up to the quoted threshold
+      const inputAmount = swapMode === 'ExactOut' ? parseInt(quote.inAmount) : params.inputAmount!;
+      const protocolFee = this.computeProtocolFee(inputAmount, quote);
+
+      const provider = this.resolveLiquidityProvider(params, parseInt(quote.outAmount));
+      const fiat = this.buildFiatPayout(params, parseInt(quote.outAmount), provider.rate);
+
+      const targetRate: TargetRate = params.targetRate ?? { type: 'market' };
 
       // Generate unique order ID
       const orderId = this.generateOrderId();
@@ -67,349 +253,1752 @@ export class OrderManager {
         id: orderId,
         inputToken: params.inputToken,
         outputToken: params.outputToken,
-        inputAmount: params.inputAmount,
+        swapMode,
+        inputAmount,
+        maxInputAmount: swapMode === 'ExactOut' ? parseInt(quote.otherAmountThreshold) : undefined,
         expectedOutputAmount: parseInt(quote.outAmount),
-        rate: params.rate || 'Market Rate',
-        creator: userPublicKey.toString(),
-        refundAddress: params.refundAddress || userPublicKey.toString(),
-        liquidityProvider: params.liquidityProvider,
-        status: 'pending' as OrderStatus,
+        agreedOutputAmount: parseInt(quote.outAmount),
+        rate: params.rate || this.describeTargetRate(targetRate, params),
+        targetRate,
+        creator,
+        refundAddress: params.refundAddress || creator,
+        depositSignature: params.depositSignature,
+        idempotencyKey: params.idempotencyKey,
+        scheduleId: params.scheduleId,
+        fiat,
+        liquidityProvider: provider.id,
+        settlementAddress: provider.settlementAddress,
+        status: OrderStatus.PENDING,
+        statusHistory: [{
+          from: null,
+          to: OrderStatus.PENDING,
+          timestamp: Date.now(),
+          actor: creator,
+          reason: 'Order created'
+        }],
         timestamp: Date.now(),
+        expiresAt: params.expiresAt ?? Date.now() + CONFIG.ORDER_TTL,
         quote,
         protocolFee,
         priceImpact: quote.priceImpactPct
       };
 
+      if (params.depositSignature) {
+        order.deposit = await this.verifyOrderDeposit(order, params.depositSignature);
+        this.requireUnusedDeposit(params.depositSignature);
+      }
+
       // Store order
-      this.orders.set(orderId, order);
+      this.storeOrder(order);
       
-      // Persist to storage
-      this.persistOrders();
+      // Persist to storage; an order that was never saved is not reported as created
+      try {
+        await this.persistOrders();
+      } catch (error) {
+        this.orders.delete(orderId);
+        this.index.remove(orderId);
+        throw error;
+      }
 
       console.log(`Order ${orderId} created successfully`);
+      this.events.emit('orderCreated', { order });
       return orderId;
 
     } catch (error) {
       console.error('Order creation failed:', error);
-      throw new Error(`Failed to create order: ${error.message}`);
+      throw new OrderError(
+        `Failed to create order: ${getErrorMessage(error)}`,
+        error instanceof OrderError ? error.code : 'QUOTE_FAILED'
+      );
     }
   }
 
   /**
-   * Execute an order (perform the actual swap)
+   * Execute an order with a verified deposit (perform the actual swap)
    */
-  async executeOrder(orderId: string, wallet: any): Promise<void> {
+  async executeOrder(
+    orderId: string,
+    wallet: any,
+    caller: Caller,
+    options: { maxDriftBps?: number } = {}
+  ): Promise<void> {
     const order = this.orders.get(orderId);
     if (!order) {
-      throw new Error('Order not found');
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
     }
 
+    requireOrderAccess(caller, order, 'execute it');
+
     if (order.status !== 'pending') {
-      throw new Error(`Order is not in pending status. Current status: ${order.status}`);
+      throw new OrderError(`Order is not in pending status. Current status: ${order.status}`, 'INVALID_STATUS');
+    }
+
+    // The executor wallet only ever spends input the creator has deposited
+    if (!order.deposit) {
+      throw new OrderError(`Order ${orderId} has no verified deposit; record it before executing`, 'DEPOSIT_REQUIRED');
+    }
+
+    if (order.fiat?.recipientMasked) {
+      throw new OrderError(
+        `Order ${orderId} was imported with masked payout details; re-import it from a sensitive export`,
+        'INVALID_STATUS'
+      );
+    }
+
+    // Claim the order synchronously so overlapping batches cannot execute it twice.
+    // Expiry is checked under the claim, once any unresolved swap has been settled.
+    if (this.executionsInFlight.has(orderId)) {
+      throw new OrderError(`Order ${orderId} is already being executed`, 'INVALID_STATUS');
+    }
+
+    const maxDriftBps = this.resolveDriftTolerance(caller, options.maxDriftBps);
+
+    this.executionsInFlight.add(orderId);
+    try {
+      await this.performExecution(order, wallet, { maxDriftBps });
+    } finally {
+      this.executionsInFlight.delete(orderId);
+    }
+  }
+
+  /**
+   * Execute several orders with bounded parallelism, reporting each outcome.
+   * Duplicate IDs are executed once.
+   */
+  async executeOrders(
+    orderIds: string[],
+    wallet: SignerWallet,
+    caller: Caller,
+    options: { concurrency?: number; maxDriftBps?: number } = {}
+  ): Promise<BatchOrderResult[]> {
+    const uniqueIds = Array.from(new Set(orderIds));
+
+    return mapWithConcurrency(uniqueIds, options.concurrency ?? CONFIG.BATCH_CONCURRENCY, async orderId => {
+      try {
+        await this.executeOrder(orderId, wallet, caller, { maxDriftBps: options.maxDriftBps });
+        return { orderId, success: true, signature: this.orders.get(orderId)?.transactionSignature };
+      } catch (error) {
+        return { orderId, success: false, error: getErrorMessage(error), code: getErrorCode(error) };
+      }
+    });
+  }
+
+  private async performExecution(
+    order: Order,
+    wallet: SignerWallet,
+    options: { maxDriftBps: number }
+  ): Promise<void> {
+    const orderId = order.id;
+    const executor = wallet?.publicKey?.toString() || SYSTEM_ACTOR;
+
+    // A swap from an earlier attempt may still land; never send another until it is resolved
+    if (order.pendingTransaction && await this.resolvePendingTransaction(order, executor)) {
+      return;
+    }
+
+    if (this.isPastExpiry(order)) {
+      await this.markExpired(order, 'Expired before execution');
+      throw new OrderError(`Order ${orderId} has expired`, 'INVALID_STATUS');
     }
 
+    // Execute against a fresh quote; if it cannot be fetched the order stays pending
+    let freshQuote: JupiterQuote;
     try {
-      console.log(`Executing order ${orderId}...`);
+      freshQuote = await this.fetchOrderQuote(order);
+    } catch (error) {
+      if (error instanceof JupiterApiError) throw error;
+      throw new OrderError(`Failed to get quote: ${getErrorMessage(error)}`, 'QUOTE_FAILED');
+    }
+
+    if (order.swapMode === 'ExactOut') {
+      // The output is fixed; guard the input the creator agreed to spend instead
+      this.checkMaxInput(order, freshQuote);
+    } else if (order.targetRate.type !== 'market') {
+      // Limit orders are guarded by their target rate
+      if (!this.isTargetRateMet(order, freshQuote)) {
+        throw new OrderError(
+          `Target not met for order ${orderId}: quoted ${freshQuote.outAmount}, ` +
+            `target ${this.getTargetOutputAmount(order)}`,
+          'TARGET_NOT_MET'
+        );
+      }
+    } else {
+      // Market orders are guarded against drift from the output the creator agreed to
+      await this.checkQuoteDrift(order, freshQuote, options.maxDriftBps);
+    }
 
+    console.log(`Executing order ${orderId}...`);
+
+    let result: TransactionResult;
+    try {
       // Execute swap through Jupiter
-      const result = await this.jupiterService.executeOrderSwap(wallet, {
+      result = await this.jupiterService.executeOrderSwap(wallet, {
         inputMint: order.inputToken,
         outputMint: order.outputToken,
         inputAmount: order.inputAmount,
-        liquidityProvider: order.liquidityProvider,
+        swapMode: order.swapMode,
+        outputAmount: order.expectedOutputAmount,
+        liquidityProvider: order.settlementAddress ?? order.liquidityProvider,
         treasuryWallet: this.treasuryWallet,
-        platformFeeBps: this.protocolFeeBps
+        platformFeeBps: this.protocolFeeBps,
+        quote: freshQuote
+      }, {
+        // Record the swap before its first broadcast so a crash or timeout cannot lose track of it
+        onSigned: async (signature, lastValidBlockHeight) => {
+          order.pendingTransaction = { signature, lastValidBlockHeight, submittedAt: Date.now() };
+          this.storeOrder(order);
+          try {
+            await this.persistOrders();
+          } catch (error) {
+            order.pendingTransaction = undefined;
+            this.storeOrder(order);
+            throw error;
+          }
+        }
       });
+    } catch (error) {
+      // Nothing was sent: Jupiter being throttled or down, or a swap that could not be
+      // recorded, is transient, so keep the order pending
+      if (error instanceof JupiterApiError ? error.retryable : error instanceof OrderError) throw error;
+      result = { signature: '', success: false, error: getErrorMessage(error) };
+    }
 
-      if (result.success) {
-        // Update order with successful execution
-        order.transactionSignature = result.signature;
-        order.actualOutputAmount = result.outputAmount ? parseInt(result.outputAmount) : order.expectedOutputAmount;
-        order.status = 'fulfilled' as OrderStatus;
-        
-        console.log(`Order ${orderId} executed successfully: ${result.signature}`);
-      } else {
-        // Update order with failure
-        order.status = 'failed' as OrderStatus;
-        order.errorMessage = result.error || 'Unknown execution error';
-        
-        console.error(`Order ${orderId} execution failed: ${result.error}`);
-        throw new Error(result.error || 'Swap execution failed');
-      }
+    if (result.success) {
+      await this.completeExecution(order, result, executor);
+      return;
+    }
 
-      // Update stored order
-      this.orders.set(orderId, order);
-      this.persistOrders();
+    if (result.outcome === 'not_sent') {
+      // Refused before broadcast (simulation failure or RPC error): the order stays pending
+      order.failure = result.failure;
+      this.storeOrder(order);
+      await this.persistOrders();
 
-    } catch (error) {
-      console.error(`Order ${orderId} execution failed:`, error);
-      
-      // Update order with error status
-      order.status = 'failed' as OrderStatus;
-      order.errorMessage = error.message;
-      this.orders.set(orderId, order);
-      this.persistOrders();
+      console.warn(`Order ${orderId} swap not sent: ${result.error}; order stays pending`);
+      throw new OrderError(
+        `Swap for order ${orderId} was not sent: ${result.error || 'Unknown error'}; retry execution`,
+        'SWAP_NOT_SENT'
+      );
+    }
 
-      throw error;
+    if (result.outcome === 'expired') {
+      // The swap never landed, so the order can safely be executed again
+      order.pendingTransaction = undefined;
+      this.storeOrder(order);
+      await this.persistOrders();
+
+      console.warn(`Order ${orderId} swap expired without landing; order stays pending`);
+      throw new OrderError(
+        `Swap for order ${orderId} expired before confirming; retry execution`,
+        'TRANSACTION_EXPIRED'
+      );
+    }
+
+    if (result.outcome === 'unknown') {
+      // pendingTransaction was saved before the swap was sent
+      console.warn(`Order ${orderId} swap ${result.signature} unconfirmed; holding order until it resolves`);
+      throw new OrderError(
+        `Swap ${result.signature} for order ${orderId} is not yet confirmed; execute again to re-check`,
+        'TRANSACTION_UNCONFIRMED'
+      );
+    }
+
+    await this.failExecution(order, result.error || 'Unknown execution error', executor, result.failure);
+  }
+
+  // Settle an order whose earlier swap had an unknown outcome. Returns true when the order
+  // was settled, false when the swap expired and the order may be executed afresh.
+  private async resolvePendingTransaction(order: Order, executor: string): Promise<boolean> {
+    const { signature, lastValidBlockHeight } = order.pendingTransaction!;
+    const { outcome, error, failure } = await this.jupiterService.getTransactionOutcome(signature, lastValidBlockHeight);
+
+    switch (outcome) {
+      case 'confirmed': {
+        // The executed quote wasn't kept, so slippage is measured against the order's last quote
+        const receipt = await this.jupiterService.getSwapReceipt(signature, order.quote, {
+          payer: executor,
+          recipient: order.settlementAddress ?? order.liquidityProvider,
+          treasuryWallet: this.treasuryWallet
+        });
+        await this.completeExecution(order, {
+          signature,
+          success: true,
+          outputAmount: receipt?.outputAmount.toString(),
+          receipt
+        }, executor);
+        return true;
+      }
+      case 'failed':
+        await this.failExecution(order, error || 'Transaction failed', executor, failure);
+        return true;
+      case 'expired':
+        console.log(`Order ${order.id} swap ${signature} expired without landing`);
+        order.pendingTransaction = undefined;
+        this.storeOrder(order);
+        await this.persistOrders();
+        return false;
+      default:
+        throw new OrderError(
+          `Swap ${signature} for order ${order.id} is still unconfirmed`,
+          'TRANSACTION_UNCONFIRMED'
+        );
     }
   }
 
+  private async completeExecution(order: Order, result: TransactionResult, executor: string): Promise<void> {
+    // Update order with successful execution
+    order.transactionSignature = result.signature;
+    order.pendingTransaction = undefined;
+    order.failure = undefined;
+    order.receipt = result.receipt;
+    order.actualOutputAmount = result.outputAmount ? parseInt(result.outputAmount) : order.expectedOutputAmount;
+    order.depositSurplus = this.computeDepositSurplus(order, result.receipt);
+    if (order.fiat) {
+      // The LP pays out on what was actually delivered
+      order.fiat.amount = computeFiatAmount(order.actualOutputAmount, order.outputToken, order.fiat.rate)
+        ?? order.fiat.amount;
+    }
+    this.transition(order, OrderStatus.FULFILLED, {
+      actor: executor,
+      reason: `Swap confirmed: ${result.signature}`
+    });
+
+    this.storeOrder(order);
+    await this.persistOrders();
+
+    console.log(`Order ${order.id} executed successfully: ${result.signature}` +
+      (order.depositSurplus ? `; ${order.depositSurplus} of the deposit unspent` : ''));
+    this.events.emit('orderFulfilled', { order, signature: result.signature });
+  }
+
+  private async failExecution(
+    order: Order,
+    errorMessage: string,
+    executor: string,
+    failure?: SwapFailure
+  ): Promise<never> {
+    // Update order with failure
+    order.errorMessage = errorMessage;
+    order.failure = failure;
+    order.pendingTransaction = undefined;
+    this.transition(order, OrderStatus.FAILED, {
+      actor: executor,
+      reason: order.errorMessage
+    });
+
+    this.storeOrder(order);
+    await this.persistOrders();
+
+    console.error(`Order ${order.id} execution failed: ${order.errorMessage}`);
+    this.events.emit('orderFailed', { order, error: order.errorMessage });
+    throw new OrderError(order.errorMessage, 'EXECUTION_FAILED');
+  }
+
   /**
-   * Cancel an order
+   * Cancel an order (creator or admin)
    */
-  cancelOrder(orderId: string, userPublicKey: PublicKey): void {
+  async cancelOrder(orderId: string, caller: Caller, reason: string = 'Cancelled by creator'): Promise<void> {
     const order = this.orders.get(orderId);
     if (!order) {
-      throw new Error('Order not found');
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
     }
 
-    if (order.creator !== userPublicKey.toString()) {
-      throw new Error('Unauthorized: Only order creator can cancel');
-    }
+    requireOrderCreator(caller, order, 'cancel');
 
     if (order.status !== 'pending') {
-      throw new Error(`Cannot cancel order with status: ${order.status}`);
+      throw new OrderError(`Cannot cancel order with status: ${order.status}`, 'INVALID_STATUS');
     }
 
-    order.status = 'cancelled' as OrderStatus;
-    this.orders.set(orderId, order);
-    this.persistOrders();
+    if (this.executionsInFlight.has(orderId)) {
+      throw new OrderError('Cannot cancel an order that is being executed', 'INVALID_STATUS');
+    }
+
+    if (order.pendingTransaction) {
+      throw new OrderError('Cannot cancel an order whose swap is awaiting confirmation', 'INVALID_STATUS');
+    }
+
+    this.transition(order, OrderStatus.CANCELLED, {
+      actor: caller.publicKey,
+      reason
+    });
+    this.storeOrder(order);
+    await this.persistOrders();
 
-    console.log(`Order ${orderId} cancelled by user`);
+    console.log(`Order ${orderId} cancelled by ${caller.publicKey}` + (order.deposit ? '; deposit awaits refund' : ''));
+    this.events.emit('orderCancelled', { order });
   }
 
   /**
-   * Get order by ID
+   * Record the LP's fiat payout reference for a fulfilled off-ramp order (order's LP or admin).
+   * Repeating the same reference is a no-op.
    */
-  getOrder(orderId: string): Order | undefined {
-    return this.orders.get(orderId);
+  async recordFiatSettlement(orderId: string, settlementReference: string, caller: Caller): Promise<Order> {
+    requireRole(caller, 'liquidityProvider', 'recording settlements');
+
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    if (order.liquidityProvider !== caller.publicKey && !hasRole(caller, 'admin')) {
+      throw new OrderError('Unauthorized: Only the order\'s liquidity provider can settle', 'UNAUTHORIZED');
+    }
+
+    if (!order.fiat) {
+      throw new OrderError(`Order ${orderId} has no fiat payout`, 'INVALID_STATUS');
+    }
+
+    if (order.fiat.recipientMasked) {
+      throw new OrderError(
+        `Order ${orderId} was imported with masked payout details; re-import it from a sensitive export`,
+        'INVALID_STATUS'
+      );
+    }
+
+    if (order.status !== OrderStatus.FULFILLED) {
+      throw new OrderError(`Cannot settle order with status: ${order.status}`, 'INVALID_STATUS');
+    }
+
+    if (!settlementReference || settlementReference.length > 128) {
+      throw new OrderError('Settlement reference must be 1-128 characters', 'INVALID_PARAMS');
+    }
+
+    if (order.fiat.settlementReference) {
+      if (order.fiat.settlementReference === settlementReference) {
+        return order;
+      }
+      throw new OrderError(`Order ${orderId} is already settled`, 'INVALID_STATUS');
+    }
+
+    order.fiat.settlementReference = settlementReference;
+    order.fiat.settledAt = Date.now();
+    await this.persistOrders();
+
+    console.log(`Order ${orderId} fiat payout settled by ${order.liquidityProvider}`);
+    return order;
   }
 
   /**
-   * Get all orders for a user
+   * Attach the creator's deposit to a pending order once it has been verified on-chain
+   * (creator or admin). Repeating the recorded signature is a no-op.
    */
-  getUserOrders(userPublicKey: PublicKey): Order[] {
-    const userAddress = userPublicKey.toString();
-    return Array.from(this.orders.values())
-      .filter(order => order.creator === userAddress)
-      .sort((a, b) => b.timestamp - a.timestamp);
+  async recordDeposit(orderId: string, signature: string, caller: Caller): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    requireOrderCreator(caller, order, 'record a deposit');
+
+    if (order.deposit) {
+      if (order.deposit.signature === signature) {
+        return order;
+      }
+      throw new OrderError(`Order ${orderId} already has a deposit`, 'INVALID_STATUS');
+    }
+
+    if (order.status !== OrderStatus.PENDING) {
+      throw new OrderError(`Cannot record a deposit for order with status: ${order.status}`, 'INVALID_STATUS');
+    }
+
+    const deposit = await this.verifyOrderDeposit(order, signature);
+    if (order.deposit || order.status !== OrderStatus.PENDING) {
+      throw new OrderError(`Order ${orderId} changed while its deposit was verified`, 'INVALID_STATUS');
+    }
+    this.requireUnusedDeposit(signature);
+
+    order.deposit = deposit;
+    order.depositSignature = signature;
+    this.storeOrder(order);
+    await this.persistOrders();
+
+    console.log(`Order ${orderId} deposit of ${deposit.amount} verified: ${signature}`);
+    return order;
   }
 
   /**
-   * Get all orders (admin function)
+   * Verify a deposit made outside any single order, e.g. to fund a recurring schedule (admin).
+   * Its owner tracks the balance and funds orders from it with fundOrder.
    */
-  getAllOrders(): Order[] {
-    return Array.from(this.orders.values())
-      .sort((a, b) => b.timestamp - a.timestamp);
+  async verifyExternalDeposit(
+    signature: string,
+    funding: { inputToken: string; creator: string; amount: number },
+    caller: Caller
+  ): Promise<OrderDeposit> {
+    requireRole(caller, 'admin', 'verifying external deposits');
+
+    const deposit = await this.verifyDeposit(signature, {
+      mint: funding.inputToken,
+      sender: funding.creator,
+      required: funding.amount
+    });
+    this.requireUnusedDeposit(signature);
+    return deposit;
   }
 
   /**
-   * Get orders by status
+   * Register a check for deposit signatures claimed outside the order book
+   * (e.g. by recurring schedules), so no order can be created against them
    */
-  getOrdersByStatus(status: OrderStatus): Order[] {
-    return Array.from(this.orders.values())
-      .filter(order => order.status === status)
-      .sort((a, b) => b.timestamp - a.timestamp);
+  registerDepositClaims(isClaimed: (signature: string) => boolean): void {
+    this.depositClaims.push(isClaimed);
   }
 
   /**
-   * Update order quote (refresh pricing for pending orders)
+   * Fund a pending order from a deposit verified with verifyExternalDeposit (admin).
+   * The deposit's amount is what the order may spend or be refunded.
    */
-  async updateOrderQuote(orderId: string): Promise<void> {
+  async fundOrder(orderId: string, deposit: OrderDeposit, caller: Caller): Promise<Order> {
+    requireRole(caller, 'admin', 'funding orders');
+
     const order = this.orders.get(orderId);
-    if (!order || order.status !== 'pending') {
-      throw new Error('Cannot update quote for non-pending order');
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
     }
 
-    try {
-      const newQuote = await this.jupiterService.getQuote(
-        order.inputToken,
-        order.outputToken,
-        order.inputAmount,
-        50,
-        this.protocolFeeBps
-      );
+    if (order.status !== OrderStatus.PENDING || order.deposit) {
+      throw new OrderError(`Order ${orderId} cannot be funded`, 'INVALID_STATUS');
+    }
 
-      // Update order with new quote
-      order.quote = newQuote;
-      order.expectedOutputAmount = parseInt(newQuote.outAmount);
-      order.priceImpact = newQuote.priceImpactPct;
+    const required = this.getRequiredDeposit(order);
+    if (deposit.amount < required) {
+      throw new OrderError(`Funding of ${deposit.amount} is below the required ${required}`, 'DEPOSIT_INVALID');
+    }
 
-      this.orders.set(orderId, order);
-      this.persistOrders();
+    order.deposit = deposit;
+    order.depositSignature = deposit.signature;
+    this.storeOrder(order);
+    await this.persistOrders();
 
-      console.log(`Quote updated for order ${orderId}`);
-    } catch (error) {
-      console.error(`Failed to update quote for order ${orderId}:`, error);
-      throw error;
-    }
+    return order;
   }
 
   /**
-   * Get order statistics
+   * Return part of a deposit verified with verifyExternalDeposit to a refund address (admin).
+   * `onSigned` must record the refund before its first broadcast; an unknown outcome is
+   * settled with getTransferOutcome before anything is sent again.
    */
-  getOrderStats(): OrderStats {
-    const orders = Array.from(this.orders.values());
-    
-    return {
-      total: orders.length,
-      pending: orders.filter(o => o.status === 'pending').length,
-      fulfilled: orders.filter(o => o.status === 'fulfilled').length,
-      failed: orders.filter(o => o.status === 'failed').length,
-      cancelled: orders.filter(o => o.status === 'cancelled').length,
-      totalVolume: orders
-        .filter(o => o.status === 'fulfilled')
-        .reduce((sum, o) => sum + o.inputAmount, 0)
-    };
+  async refundExternalDeposit(
+    wallet: SignerWallet,
+    refund: { inputToken: string; refundAddress: string; amount: number },
+    onSigned: (signature: string, lastValidBlockHeight: number) => Promise<void>,
+    caller: Caller
+  ): Promise<TransactionResult> {
+    requireRole(caller, 'admin', 'refunding external deposits');
+
+    return this.jupiterService.transferToken(wallet, refund.inputToken, refund.refundAddress, refund.amount, {
+      onSigned
+    });
   }
 
   /**
-   * Get orders requiring attention (failed, expired quotes, etc.)
+   * Look up how a transfer sent with refundExternalDeposit ended (admin)
    */
-  getOrdersRequiringAttention(): Order[] {
-    const now = Date.now();
-    const QUOTE_EXPIRY_TIME = 5 * 60 * 1000; // 5 minutes
+  async getTransferOutcome(signature: string, lastValidBlockHeight: number, caller: Caller): Promise<TransactionOutcome> {
+    requireRole(caller, 'admin', 'checking transfers');
 
-    return Array.from(this.orders.values()).filter(order => {
-      // Failed orders
-      if (order.status === 'failed') return true;
-      
-      // Pending orders with old quotes
-      if (order.status === 'pending' && (now - order.timestamp) > QUOTE_EXPIRY_TIME) {
-        return true;
-      }
-      
-      return false;
-    });
+    const { outcome } = await this.jupiterService.getTransactionOutcome(signature, lastValidBlockHeight);
+    return outcome;
   }
 
   /**
-   * Refresh all pending order quotes
+   * Accept the current market quote as the order's new agreed output.
+   * Used by the creator to re-confirm an order refused for quote drift.
    */
-  async refreshPendingQuotes(): Promise<void> {
-    const pendingOrders = this.getOrdersByStatus('pending' as OrderStatus);
-    
-    for (const order of pendingOrders) {
-      try {
-        await this.updateOrderQuote(order.id);
-      } catch (error) {
-        console.error(`Failed to refresh quote for order ${order.id}:`, error);
-      }
+  async reconfirmOrderQuote(orderId: string, caller: Caller): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
     }
-  }
 
-  // Private helper methods
-  private generateOrderId(): string {
-    this.orderIdCounter++;
-    return `order_${Date.now()}_${this.orderIdCounter.toString().padStart(4, '0')}`;
+    // Re-confirming is the creator's consent to a new price; admins cannot give it
+    if (order.creator !== caller.publicKey) {
+      throw new OrderError('Unauthorized: Only order creator can re-confirm', 'UNAUTHORIZED');
+    }
+
+    await this.requoteOrder(order, { reconfirm: true });
+
+    console.log(`Order ${orderId} re-confirmed at ${order.agreedOutputAmount}`);
+    return order;
   }
 
-  private validateOrderParams(params: OrderCreationParams): void {
-    if (!params.inputToken || !params.outputToken) {
-      throw new Error('Input and output tokens are required');
-    }
+  /**
+   * Move a pending order to EXPIRED (admin)
+   */
+  async expireOrder(orderId: string, caller: Caller, reason: string = 'Order expired'): Promise<void> {
+    requireRole(caller, 'admin', 'expiring orders');
 
-    if (params.inputToken === params.outputToken) {
-      throw new Error('Input and output tokens cannot be the same');
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
     }
 
-    if (!params.inputAmount || params.inputAmount <= 0) {
-      throw new Error('Input amount must be greater than 0');
+    // A swap in flight or awaiting confirmation may still land; execution settles those orders
+    if (this.executionsInFlight.has(orderId)) {
+      throw new OrderError('Cannot expire an order that is being executed', 'INVALID_STATUS');
     }
 
-    if (!params.liquidityProvider) {
-      throw new Error('Liquidity provider address is required');
+    if (order.pendingTransaction) {
+      throw new OrderError('Cannot expire an order whose swap is awaiting confirmation', 'INVALID_STATUS');
     }
 
-    // Validate addresses
-    try {
-      new PublicKey(params.liquidityProvider);
-    } catch (error) {
-      throw new Error('Invalid liquidity provider address');
-    }
+    await this.markExpired(order, reason);
+  }
+
+  /**
+   * Expire every pending order past its expiresAt (admin). Returns the expired order IDs.
+   */
+  async expireStaleOrders(caller: Caller, now: number = Date.now()): Promise<string[]> {
+    requireRole(caller, 'admin', 'expiring orders');
+
+    const expired: string[] = [];
+
+    for (const order of this.findOrders(order => order.status === OrderStatus.PENDING)) {
+      // Orders mid-execution or with an unresolved swap are settled by execution
+      if (!this.isPastExpiry(order, now) || this.executionsInFlight.has(order.id) || order.pendingTransaction) continue;
 
-    if (params.refundAddress) {
       try {
-        new PublicKey(params.refundAddress);
+        await this.markExpired(order, `Expired at ${new Date(order.expiresAt).toISOString()}`);
+        expired.push(order.id);
       } catch (error) {
-        throw new Error('Invalid refund address');
+        console.error(`Failed to expire order ${order.id}:`, error);
       }
     }
-  }
 
-  // Persistence methods (localStorage for now, replace with database for production)
-  private persistOrders(): void {
-    try {
-      if (typeof window !== 'undefined') {
-        const ordersArray = Array.from(this.orders.entries());
-        localStorage.setItem('jupiter_orders', JSON.stringify(ordersArray));
-      }
-    } catch (error) {
-      console.error('Failed to persist orders:', error);
-    }
+    return expired;
   }
 
-  private loadPersistedOrders(): void {
-    try {
-      if (typeof window !== 'undefined') {
-        const stored = localStorage.getItem('jupiter_orders');
-        if (stored) {
-          const ordersArray = JSON.parse(stored);
-          this.orders = new Map(ordersArray);
-          
-          // Update counter to avoid ID conflicts
-          const maxId = Math.max(
-            0,
-            ...Array.from(this.orders.keys())
-              .map(id => parseInt(id.split('_')[2]) || 0)
-          );
-          this.orderIdCounter = maxId;
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load persisted orders:', error);
-      this.orders = new Map();
+  /**
+   * Check whether an order can be refunded: it failed, expired or was cancelled after
+   * the creator's deposit was verified on-chain, or it was fulfilled without spending
+   * all of it, and no refund has been sent yet
+   */
+  isRefundEligible(order: Order): boolean {
+    if (!order.deposit || order.refundSignature) {
+      return false;
     }
+
+    return order.status === OrderStatus.FULFILLED
+      ? (order.depositSurplus ?? 0) > 0
+      : REFUNDABLE_STATUSES.includes(order.status);
   }
 
   /**
-   * Export orders (for backup/migration)
+   * Get all orders awaiting a refund, oldest first (admin)
    */
-  exportOrders(): string {
-    return JSON.stringify(Array.from(this.orders.entries()));
+  getRefundableOrders(caller: Caller): Order[] {
+    requireRole(caller, 'admin', 'listing refundable orders');
+
+    return this.findOrders(order => this.isRefundEligible(order))
+      .reverse();
   }
 
   /**
-   * Import orders (for backup/migration)
+   * Refund a failed, expired or cancelled order by returning the deposited input token
+   * to its refund address, or a fulfilled order's unspent deposit (creator or admin)
    */
-  importOrders(ordersJson: string): void {
-    try {
-      const ordersArray = JSON.parse(ordersJson);
-      this.orders = new Map(ordersArray);
-      this.persistOrders();
-      console.log(`Imported ${ordersArray.length} orders`);
-    } catch (error) {
-      console.error('Failed to import orders:', error);
-      throw new Error('Invalid orders data format');
+  async refundOrder(orderId: string, wallet: SignerWallet, caller: Caller): Promise<string> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    requireOrderCreator(caller, order, 'request a refund');
+
+    if (!this.isRefundEligible(order)) {
+      throw new OrderError(
+        `Order is not eligible for refund. Status: ${order.status}` +
+          (order.deposit ? '' : ', no verified deposit'),
+        'INVALID_STATUS'
+      );
+    }
+
+    // Guard against a second refund being sent while the first is confirming
+    if (this.refundsInFlight.has(orderId)) {
+      throw new OrderError(`Refund already in progress for order ${orderId}`, 'INVALID_STATUS');
+    }
+
+    this.refundsInFlight.add(orderId);
+    try {
+      return await this.performRefund(order, wallet);
+    } finally {
+      this.refundsInFlight.delete(orderId);
+    }
+  }
+
+  private async performRefund(order: Order, wallet: SignerWallet): Promise<string> {
+    const orderId = order.id;
+    const actor = wallet.publicKey.toString();
+
+    // A refund from an earlier attempt may still land; never send another until it is resolved
+    if (order.pendingRefund && await this.resolvePendingRefund(order, actor)) {
+      return order.refundSignature!;
+    }
+
+    console.log(`Refunding order ${orderId} to ${order.refundAddress}...`);
+
+    const result = await this.jupiterService.transferToken(
+      wallet,
+      order.inputToken,
+      order.refundAddress,
+      this.getRefundAmount(order),
+      {
+        // Record the refund before its first broadcast so a retry cannot pay twice
+        onSigned: async (signature, lastValidBlockHeight) => {
+          order.pendingRefund = { signature, lastValidBlockHeight, submittedAt: Date.now() };
+          this.storeOrder(order);
+          try {
+            await this.persistOrders();
+          } catch (error) {
+            order.pendingRefund = undefined;
+            this.storeOrder(order);
+            throw error;
+          }
+        }
+      }
+    );
+
+    if (result.success) {
+      await this.completeRefund(order, result.signature, actor);
+      return result.signature;
+    }
+
+    if (result.outcome === 'unknown') {
+      console.warn(`Order ${orderId} refund ${result.signature} unconfirmed; holding until it resolves`);
+      throw new OrderError(
+        `Refund ${result.signature} for order ${orderId} is not yet confirmed; request the refund again to re-check`,
+        'TRANSACTION_UNCONFIRMED'
+      );
+    }
+
+    // Not sent, failed on-chain or expired: no funds moved, so the refund may be retried
+    if (order.pendingRefund) {
+      order.pendingRefund = undefined;
+      this.storeOrder(order);
+      await this.persistOrders();
+    }
+
+    console.error(`Order ${orderId} refund failed: ${result.error}`);
+    throw new OrderError(`Refund failed: ${result.error || 'Unknown transfer error'}`, 'REFUND_FAILED');
+  }
+
+  // Settle an order whose earlier refund had an unknown outcome. Returns true when the refund
+  // confirmed, false when it failed or expired and may be sent afresh.
+  private async resolvePendingRefund(order: Order, actor: string): Promise<boolean> {
+    const { signature, lastValidBlockHeight } = order.pendingRefund!;
+    const { outcome } = await this.jupiterService.getTransactionOutcome(signature, lastValidBlockHeight);
+
+    switch (outcome) {
+      case 'confirmed':
+        await this.completeRefund(order, signature, actor);
+        return true;
+      case 'failed':
+      case 'expired':
+        console.log(`Order ${order.id} refund ${signature} ${outcome} without moving funds`);
+        order.pendingRefund = undefined;
+        this.storeOrder(order);
+        await this.persistOrders();
+        return false;
+      default:
+        throw new OrderError(
+          `Refund ${signature} for order ${order.id} is still unconfirmed`,
+          'TRANSACTION_UNCONFIRMED'
+        );
+    }
+  }
+
+  private async completeRefund(order: Order, signature: string, actor: string): Promise<void> {
+    order.refundSignature = signature;
+    order.pendingRefund = undefined;
+    // A fulfilled order only gets its surplus back and stays fulfilled
+    if (order.status !== OrderStatus.FULFILLED) {
+      this.transition(order, OrderStatus.REFUNDED, {
+        actor,
+        reason: `Refund sent: ${signature}`
+      });
     }
+
+    this.storeOrder(order);
+    await this.persistOrders();
+
+    console.log(`Order ${order.id} refunded: ${signature}`);
+    this.events.emit('orderRefunded', { order, signature });
   }
 
   /**
-   * Clear all orders (use with caution)
+   * Refund all eligible orders, continuing past individual failures (admin)
    */
-  clearAllOrders(): void {
-    this.orders.clear();
-    this.orderIdCounter = 0;
-    this.persistOrders();
-    console.log('All orders cleared');
+  async refundEligibleOrders(wallet: SignerWallet, caller: Caller): Promise<RefundResult[]> {
+    const results: RefundResult[] = [];
+
+    for (const order of this.getRefundableOrders(caller)) {
+      try {
+        const signature = await this.refundOrder(order.id, wallet, caller);
+        results.push({ orderId: order.id, success: true, signature });
+      } catch (error) {
+        results.push({ orderId: order.id, success: false, error: getErrorMessage(error) });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get order by ID (creator, LP or admin)
+   */
+  getOrder(orderId: string, caller: Caller): Order | undefined {
+    const order = this.orders.get(orderId);
+    if (order) {
+      requireOrderAccess(caller, order, 'view it');
+    }
+    return order;
   }
 
   /**
-   * Get total fees collected
+   * Get all orders for a user (the user themselves or an admin)
    */
-  getTotalFeesCollected(): number {
+  getUserOrders(userPublicKey: PublicKey, caller: Caller): Order[] {
+    const userAddress = userPublicKey.toString();
+    if (userAddress !== caller.publicKey) {
+      requireRole(caller, 'admin', 'listing another user\'s orders');
+    }
+
+    return this.findIndexedOrders('creator', [userAddress]);
+  }
+
+  /**
+   * Get all orders (admin function)
+   */
+  getAllOrders(caller: Caller): Order[] {
+    requireRole(caller, 'admin', 'listing all orders');
+    return this.findOrders();
+  }
+
+  /**
+   * Get orders by status (admin)
+   */
+  getOrdersByStatus(status: OrderStatus, caller: Caller): Order[] {
+    requireRole(caller, 'admin', 'listing orders by status');
+    return this.findIndexedOrders('status', [status]);
+  }
+
+  /**
+   * Search orders with filters, sorting and cursor pagination.
+   * Non-admins only see their own orders, or, for LPs, orders routed to them.
+   */
+  queryOrders(query: OrderQuery, caller: Caller): OrderPage {
+    const scoped = { ...query };
+    if (!hasRole(caller, 'admin')) {
+      const ownLpQuery = hasRole(caller, 'liquidityProvider') && scoped.liquidityProvider === caller.publicKey;
+      if (!ownLpQuery) {
+        if (scoped.creator && scoped.creator !== caller.publicKey) {
+          throw new OrderError('Unauthorized: Only admins can search other users\' orders', 'UNAUTHORIZED');
+        }
+        scoped.creator = caller.publicKey;
+      }
+    }
+
+    const sortBy = scoped.sortBy ?? 'timestamp';
+    const sortDirection = scoped.sortDirection ?? 'desc';
+    const limit = Math.min(
+      Math.max(Math.floor(scoped.limit ?? CONFIG.ORDER_QUERY_DEFAULT_LIMIT), 1),
+      CONFIG.ORDER_QUERY_MAX_LIMIT
+    );
+    const cursor = scoped.cursor ? decodeOrderCursor(scoped.cursor, sortBy) : null;
+
+    // Intersect the indexed filters, smallest candidate set first
+    const indexed: Set<string>[] = [];
+    if (scoped.creator) indexed.push(this.index.lookup('creator', [scoped.creator]));
+    if (scoped.liquidityProvider) indexed.push(this.index.lookup('liquidityProvider', [scoped.liquidityProvider]));
+    if (scoped.statuses?.length) indexed.push(this.index.lookup('status', scoped.statuses));
+    if (scoped.inputToken) indexed.push(this.index.lookup('inputToken', [scoped.inputToken]));
+    if (scoped.outputToken) indexed.push(this.index.lookup('outputToken', [scoped.outputToken]));
+    if (scoped.signature) indexed.push(this.index.lookup('signature', [scoped.signature]));
+    indexed.sort((a, b) => a.size - b.size);
+
+    let candidates: Iterable<Order>;
+    if (indexed.length === 0) {
+      candidates = this.orders.values();
+    } else {
+      const [smallest, ...rest] = indexed;
+      candidates = Array.from(smallest)
+        .filter(id => rest.every(ids => ids.has(id)))
+        .map(id => this.orders.get(id)!);
+    }
+
+    const matches = Array.from(candidates)
+      .filter(order => matchesOrderQuery(order, scoped))
+      .sort(compareOrders(sortBy, sortDirection));
+
+    const start = cursor ? matches.findIndex(order => isAfterCursor(order, cursor, sortDirection)) : 0;
+    const orders = start === -1 ? [] : matches.slice(start, start + limit);
+    const hasMore = start !== -1 && start + limit < matches.length;
+
+    return {
+      orders,
+      total: matches.length,
+      nextCursor: hasMore ? encodeOrderCursor(orders[orders.length - 1], sortBy) : null
+    };
+  }
+
+  /**
+   * Update order quote (refresh pricing for pending orders)
+   */
+  async updateOrderQuote(orderId: string, caller: Caller): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    requireOrderAccess(caller, order, 'refresh its quote');
+    await this.requoteOrder(order);
+  }
+
+  // Refresh the order's quote. Only a creator re-confirmation moves the agreed output
+  // the drift check is measured from, or an ExactOut order's max input.
+  private async requoteOrder(order: Order, options: { reconfirm?: boolean } = {}): Promise<void> {
+    const orderId = order.id;
+
+    if (order.status !== 'pending') {
+      throw new OrderError('Cannot update quote for non-pending order', 'INVALID_STATUS');
+    }
+
+    try {
+      const newQuote = await this.fetchOrderQuote(order);
+
+      // Update order with new quote
+      const previousOutputAmount = order.expectedOutputAmount;
+      order.quote = newQuote;
+      order.expectedOutputAmount = parseInt(newQuote.outAmount);
+      order.priceImpact = newQuote.priceImpactPct;
+      if (options.reconfirm) {
+        order.agreedOutputAmount = order.expectedOutputAmount;
+        order.quoteDrift = undefined;
+      }
+      if (order.swapMode === 'ExactOut') {
+        order.inputAmount = parseInt(newQuote.inAmount);
+        order.protocolFee = this.computeProtocolFee(order.inputAmount, newQuote);
+        // The max input is what the creator agreed to spend; only they can move it
+        if (options.reconfirm) {
+          order.maxInputAmount = parseInt(newQuote.otherAmountThreshold);
+        }
+      }
+
+      this.storeOrder(order);
+      await this.persistOrders();
+
+      console.log(`Quote updated for order ${orderId}`);
+      this.events.emit('quoteRefreshed', { order, previousOutputAmount });
+    } catch (error) {
+      console.error(`Failed to update quote for order ${orderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the minimum output (smallest units) a limit order requires, or null for market orders
+   */
+  getTargetOutputAmount(order: Order): number | null {
+    const target = order.targetRate;
+
+    switch (target.type) {
+      case 'minOutput':
+        return target.minOutputAmount;
+      case 'rate': {
+        const inputToken = getTokenByMint(order.inputToken);
+        const outputToken = getTokenByMint(order.outputToken);
+        if (!inputToken || !outputToken) {
+          throw new OrderError('Rate targets require supported input and output tokens', 'INVALID_PARAMS');
+        }
+
+        const inputUnits = order.inputAmount / Math.pow(10, inputToken.decimals);
+        return Math.ceil(inputUnits * target.outputPerInput * Math.pow(10, outputToken.decimals));
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Check whether a quote satisfies the order's target rate
+   */
+  isTargetRateMet(order: Order, quote: JupiterQuote = order.quote): boolean {
+    const targetOutput = this.getTargetOutputAmount(order);
+    return targetOutput === null || parseInt(quote.outAmount) >= targetOutput;
+  }
+
+  /**
+   * Check a requested liquidity provider the way order creation does, or that one can be
+   * auto-selected when omitted. Size limits are checked once a quote is known.
+   */
+  checkLiquidityProvider(liquidityProvider: string | undefined, outputToken: string, fiatCurrency?: string): void {
+    if (!liquidityProvider) {
+      if (!this.lpRegistry) {
+        throw new OrderError('Liquidity provider address is required', 'INVALID_PARAMS');
+      }
+      return;
+    }
+
+    try {
+      new PublicKey(liquidityProvider);
+    } catch {
+      throw new OrderError('Invalid liquidity provider address', 'INVALID_PARAMS');
+    }
+
+    this.lpRegistry?.assertEligible(liquidityProvider, outputToken, undefined, fiatCurrency);
+  }
+
+  /**
+   * Get funded pending orders waiting on a target rate (admin)
+   */
+  getPendingLimitOrders(caller: Caller): Order[] {
+    requireRole(caller, 'admin', 'listing limit orders');
+
+    return this.findOrders(order =>
+      order.status === OrderStatus.PENDING && order.targetRate.type !== 'market' && !!order.deposit
+    );
+  }
+
+  /**
+   * Re-quote a limit order and execute it if the target is met (admin).
+   * Returns true when the order was executed.
+   */
+  async checkLimitOrder(orderId: string, wallet: SignerWallet, caller: Caller): Promise<boolean> {
+    requireRole(caller, 'admin', 'executing limit orders');
+    await this.updateOrderQuote(orderId, caller);
+
+    const order = this.orders.get(orderId)!;
+    if (!this.isTargetRateMet(order)) {
+      return false;
+    }
+
+    try {
+      await this.executeOrder(orderId, wallet, caller);
+      return true;
+    } catch (error) {
+      // Price moved back below the target between quotes; try again next round
+      if (error instanceof OrderError && error.code === 'TARGET_NOT_MET') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get order statistics (admin)
+   */
+  getOrderStats(caller: Caller): OrderStats {
+    requireRole(caller, 'admin', 'viewing order statistics');
+
+    const orders = Array.from(this.orders.values());
+    
+    return {
+      total: orders.length,
+      pending: orders.filter(o => o.status === 'pending').length,
+      fulfilled: orders.filter(o => o.status === 'fulfilled').length,
+      failed: orders.filter(o => o.status === 'failed').length,
+      cancelled: orders.filter(o => o.status === 'cancelled').length,
+      expired: orders.filter(o => o.status === 'expired').length,
+      volumeByMint: this.computeMintVolumeStats(orders.filter(o => o.status === 'fulfilled'))
+    };
+  }
+
+  /**
+   * Get quote cache hit/miss counters (admin)
+   */
+  getQuoteCacheMetrics(caller: Caller): QuoteCacheMetrics {
+    requireRole(caller, 'admin', 'viewing quote cache metrics');
+    return this.jupiterService.getQuoteCacheMetrics();
+  }
+
+  /**
+   * Get fulfilled volume and fees per input mint for a time window,
+   * optionally normalized to USD through a price source (admin)
+   */
+  async getVolumeStats(
+    caller: Caller,
+    window: StatsWindow = 'all',
+    priceSource?: PriceSource
+  ): Promise<VolumeStats> {
+    requireRole(caller, 'admin', 'viewing volume statistics');
+
+    const since = window === 'all' ? null : Date.now() - STATS_WINDOWS[window];
+    const orders = Array.from(this.orders.values()).filter(order =>
+      order.status === 'fulfilled' && (since === null || this.getFulfilledAt(order) >= since)
+    );
+
+    const stats: VolumeStats = {
+      window,
+      since,
+      byMint: this.computeMintVolumeStats(orders)
+    };
+
+    if (!priceSource) {
+      return stats;
+    }
+
+    const prices = await priceSource.getUsdPrices(stats.byMint.map(entry => entry.mint));
+    stats.totalVolumeUsd = 0;
+    stats.totalFeesUsd = 0;
+    stats.unpricedMints = [];
+
+    for (const entry of stats.byMint) {
+      const price = prices[entry.mint];
+      if (price === undefined || entry.volumeUi === null || entry.feesUi === null) {
+        stats.unpricedMints.push(entry.mint);
+        continue;
+      }
+
+      entry.volumeUsd = entry.volumeUi * price;
+      entry.feesUsd = entry.feesUi * price;
+      stats.totalVolumeUsd += entry.volumeUsd;
+      stats.totalFeesUsd += entry.feesUsd;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Get orders requiring attention (failed, expired quotes, etc.) (admin)
+   */
+  getOrdersRequiringAttention(caller: Caller): Order[] {
+    requireRole(caller, 'admin', 'listing orders requiring attention');
+
+    const now = Date.now();
+
+    return Array.from(this.orders.values()).filter(order => {
+      // Failed orders
+      if (order.status === 'failed') return true;
+
+      // Orders still holding deposited funds
+      if (this.isRefundEligible(order)) return true;
+      
+      // Pending orders with old quotes
+      if (order.status === 'pending' && (now - order.timestamp) > CONFIG.QUOTE_EXPIRY_TIME) {
+        return true;
+      }
+      
+      return false;
+    });
+  }
+
+  /**
+   * Refresh quotes for several pending orders with bounded parallelism
+   */
+  async refreshQuotes(
+    orderIds: string[],
+    caller: Caller,
+    options: { concurrency?: number } = {}
+  ): Promise<BatchOrderResult[]> {
+    const uniqueIds = Array.from(new Set(orderIds));
+
+    return mapWithConcurrency(uniqueIds, options.concurrency ?? CONFIG.BATCH_CONCURRENCY, async orderId => {
+      try {
+        await this.updateOrderQuote(orderId, caller);
+        return { orderId, success: true };
+      } catch (error) {
+        console.error(`Failed to refresh quote for order ${orderId}:`, error);
+        return { orderId, success: false, error: getErrorMessage(error), code: getErrorCode(error) };
+      }
+    });
+  }
+
+  /**
+   * Refresh all pending order quotes (admin)
+   */
+  async refreshPendingQuotes(caller: Caller, options: { concurrency?: number } = {}): Promise<BatchOrderResult[]> {
+    const pendingOrders = this.getOrdersByStatus(OrderStatus.PENDING, caller);
+    return this.refreshQuotes(pendingOrders.map(order => order.id), caller, options);
+  }
+
+  // Private helper methods
+  private storeOrder(order: Order): void {
+    this.orders.set(order.id, order);
+    this.index.update(order);
+  }
+
+  private findIndexedOrders(field: 'creator' | 'status', values: string[]): Order[] {
+    return Array.from(this.index.lookup(field, values))
+      .map(orderId => this.orders.get(orderId)!)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private findOrders(predicate: (order: Order) => boolean = () => true): Order[] {
     return Array.from(this.orders.values())
-      .filter(order => order.status === 'fulfilled')
-      .reduce((total, order) => total + order.protocolFee, 0);
+      .filter(predicate)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private async markExpired(order: Order, reason: string): Promise<void> {
+    this.transition(order, OrderStatus.EXPIRED, { actor: SYSTEM_ACTOR, reason });
+    this.storeOrder(order);
+    await this.persistOrders();
+
+    console.log(`Order ${order.id} expired`);
+    this.events.emit('orderExpired', { order });
+  }
+
+  private transition(order: Order, to: OrderStatus, details: { actor: string; reason?: string }): void {
+    const change = transitionOrder(order, to, details);
+    this.events.emit('statusChanged', { order, change });
+  }
+
+  private fetchOrderQuote(order: Order): Promise<JupiterQuote> {
+    return this.jupiterService.getQuote(
+      order.inputToken,
+      order.outputToken,
+      order.swapMode === 'ExactOut' ? order.agreedOutputAmount : order.inputAmount,
+      50,
+      this.protocolFeeBps,
+      { swapMode: order.swapMode }
+    );
+  }
+
+  // Protocol fee in input token terms. ExactOut fees are added to the input by Jupiter,
+  // which reports the amount in the quote.
+  private computeProtocolFee(inputAmount: number, quote: JupiterQuote): number {
+    if (quote.swapMode === 'ExactOut' && quote.platformFee?.amount) {
+      return parseInt(quote.platformFee.amount);
+    }
+
+    return (inputAmount * this.protocolFeeBps) / 10000;
+  }
+
+  // Input the creator must deposit: the agreed maximum for ExactOut orders
+  private getRequiredDeposit(order: Order): number {
+    return order.maxInputAmount ?? order.inputAmount;
+  }
+
+  // Part of the deposit a fulfilled swap left unspent. Without a measured input (native SOL),
+  // the most the swap could have spent is assumed, so the refund never exceeds the surplus.
+  private computeDepositSurplus(order: Order, receipt?: SwapReceipt): number | undefined {
+    if (!order.deposit) return undefined;
+
+    const spent = receipt?.inputAmount ?? this.getRequiredDeposit(order);
+    const surplus = order.deposit.amount - spent;
+    return surplus > 0 ? surplus : undefined;
+  }
+
+  private getRefundAmount(order: Order): number {
+    return order.status === OrderStatus.FULFILLED ? order.depositSurplus! : order.deposit!.amount;
+  }
+
+  private verifyOrderDeposit(order: Order, signature: string): Promise<OrderDeposit> {
+    return this.verifyDeposit(signature, {
+      mint: order.inputToken,
+      sender: order.creator,
+      required: this.getRequiredDeposit(order)
+    });
+  }
+
+  // Check a deposit transaction moved at least the required amount from the sender to the
+  // deposit wallet. Callers re-check requireUnusedDeposit when attaching it, since another
+  // order may claim the signature during the lookup.
+  private async verifyDeposit(
+    signature: string,
+    expected: { mint: string; sender: string; required: number }
+  ): Promise<OrderDeposit> {
+    if (!this.depositWallet) {
+      throw new OrderError('Deposit wallet not configured', 'CONFIGURATION_ERROR');
+    }
+
+    this.requireUnusedDeposit(signature);
+
+    let amount: number | undefined;
+    try {
+      amount = await this.jupiterService.getDepositAmount(signature, {
+        mint: expected.mint,
+        sender: expected.sender,
+        recipient: this.depositWallet
+      });
+    } catch (error) {
+      throw new OrderError(`Failed to verify deposit: ${getErrorMessage(error)}`, 'DEPOSIT_INVALID');
+    }
+
+    if (amount === undefined) {
+      throw new OrderError(`Deposit ${signature} not found or not yet confirmed`, 'DEPOSIT_INVALID');
+    }
+
+    if (amount < expected.required) {
+      throw new OrderError(
+        `Deposit ${signature} moved ${amount} of the input token from the creator to the ` +
+          `deposit wallet; ${expected.required} is required`,
+        'DEPOSIT_INVALID'
+      );
+    }
+
+    return { signature, amount, verifiedAt: Date.now() };
+  }
+
+  private isDepositUsedElsewhere(signature: string, orderId: string): boolean {
+    return Array.from(this.index.lookup('signature', [signature])).some(id => id !== orderId) ||
+      this.depositClaims.some(isClaimed => isClaimed(signature));
+  }
+
+  private requireUnusedDeposit(signature: string): void {
+    if (this.index.lookup('signature', [signature]).size > 0 ||
+      this.depositClaims.some(isClaimed => isClaimed(signature))) {
+      throw new OrderError(`Deposit ${signature} is already used by another order`, 'DEPOSIT_INVALID');
+    }
+  }
+
+  // Refuse an ExactOut execution whose fresh quote may spend more than the creator agreed to
+  // or deposited
+  private checkMaxInput(order: Order, freshQuote: JupiterQuote): void {
+    const freshMaxInput = parseInt(freshQuote.otherAmountThreshold);
+    const agreedMaxInput = Math.min(this.getRequiredDeposit(order), order.deposit?.amount ?? Infinity);
+
+    if (freshMaxInput > agreedMaxInput) {
+      console.warn(`Order ${order.id} refused: max input rose to ${freshMaxInput} (agreed ${agreedMaxInput})`);
+      throw new OrderError(
+        `Quoted max input ${freshMaxInput} exceeds the agreed ${agreedMaxInput}; ` +
+          're-confirm the order to proceed',
+        'QUOTE_DRIFT'
+      );
+    }
+  }
+
+  // Record drift between the agreed and freshly quoted output, refusing when it exceeds the tolerance
+  private async checkQuoteDrift(order: Order, freshQuote: JupiterQuote, toleranceBps: number): Promise<void> {
+    const agreedOutputAmount = order.agreedOutputAmount;
+    const quotedOutputAmount = parseInt(freshQuote.outAmount);
+    const driftBps = agreedOutputAmount > 0
+      ? Math.round(((agreedOutputAmount - quotedOutputAmount) / agreedOutputAmount) * 10000)
+      : 0;
+
+    const accepted = driftBps <= toleranceBps;
+    order.quoteDrift = {
+      expectedOutputAmount: agreedOutputAmount,
+      quotedOutputAmount,
+      driftBps,
+      toleranceBps,
+      checkedAt: Date.now(),
+      accepted
+    };
+
+    this.storeOrder(order);
+    await this.persistOrders();
+
+    if (!accepted) {
+      console.warn(`Order ${order.id} refused: output dropped ${driftBps} bps (tolerance ${toleranceBps})`);
+      throw new OrderError(
+        `Quoted output ${quotedOutputAmount} is ${driftBps} bps below the agreed ` +
+          `${agreedOutputAmount}; re-confirm the order to proceed`,
+        'QUOTE_DRIFT'
+      );
+    }
+  }
+
+  // Aggregate volume and fees per input mint; amounts are in the mint's smallest units
+  private computeMintVolumeStats(orders: Order[]): MintVolumeStats[] {
+    const byMint = new Map<string, MintVolumeStats>();
+
+    for (const order of orders) {
+      let entry = byMint.get(order.inputToken);
+      if (!entry) {
+        const token = getTokenByMint(order.inputToken);
+        entry = {
+          mint: order.inputToken,
+          symbol: token?.symbol ?? null,
+          decimals: token?.decimals ?? null,
+          orderCount: 0,
+          volume: 0,
+          fees: 0,
+          volumeUi: null,
+          feesUi: null
+        };
+        byMint.set(order.inputToken, entry);
+      }
+
+      entry.orderCount++;
+      entry.volume += order.inputAmount;
+      entry.fees += order.protocolFee;
+    }
+
+    return Array.from(byMint.values())
+      .map(entry => entry.decimals === null ? entry : {
+        ...entry,
+        volumeUi: entry.volume / Math.pow(10, entry.decimals),
+        feesUi: entry.fees / Math.pow(10, entry.decimals)
+      })
+      .sort((a, b) => b.orderCount - a.orderCount);
+  }
+
+  // Time of the FULFILLED transition, falling back to creation time for older orders
+  private getFulfilledAt(order: Order): number {
+    const fulfilled = order.statusHistory.find(change => change.to === OrderStatus.FULFILLED);
+    return fulfilled?.timestamp ?? order.timestamp;
+  }
+
+  private isPastExpiry(order: Order, now: number = Date.now()): boolean {
+    return order.expiresAt <= now;
+  }
+
+  // Drift tolerance for one execution: callers may tighten the configured default,
+  // only admins may loosen it, and never past CONFIG.MAX_QUOTE_DRIFT_BPS_LIMIT
+  private resolveDriftTolerance(caller: Caller, requestedBps?: number): number {
+    if (requestedBps === undefined) {
+      return CONFIG.MAX_QUOTE_DRIFT_BPS;
+    }
+
+    if (!Number.isFinite(requestedBps) || requestedBps < 0) {
+      throw new OrderError('maxDriftBps must be a non-negative number', 'INVALID_PARAMS');
+    }
+
+    const ceiling = hasRole(caller, 'admin') ? CONFIG.MAX_QUOTE_DRIFT_BPS_LIMIT : CONFIG.MAX_QUOTE_DRIFT_BPS;
+    return Math.min(requestedBps, ceiling);
+  }
+
+  private describeTargetRate(targetRate: TargetRate, params: OrderCreationParams): string {
+    switch (targetRate.type) {
+      case 'rate': {
+        const inputSymbol = getTokenByMint(params.inputToken)?.symbol ?? 'input';
+        const outputSymbol = getTokenByMint(params.outputToken)?.symbol ?? 'output';
+        return `${targetRate.outputPerInput} ${outputSymbol}/${inputSymbol}`;
+      }
+      case 'minOutput':
+        return `Min output ${targetRate.minOutputAmount}`;
+      default:
+        return 'Market Rate';
+    }
+  }
+
+  // Timestamp prefix keeps IDs roughly sortable; the random suffix makes them collision-proof
+  private generateOrderId(): string {
+    let orderId: string;
+    do {
+      orderId = `order_${Date.now()}_${crypto.randomUUID().replace(/-/g, '')}`;
+    } while (this.orders.has(orderId));
+
+    return orderId;
+  }
+
+  private findOrderByIdempotencyKey(creator: string, idempotencyKey: string): Order | undefined {
+    const windowStart = Date.now() - CONFIG.IDEMPOTENCY_WINDOW;
+
+    return Array.from(this.orders.values()).find(order =>
+      order.idempotencyKey === idempotencyKey &&
+      order.creator === creator &&
+      order.timestamp >= windowStart
+    );
+  }
+
+  /**
+   * Check the requested LP against the quoted output, or auto-select the best eligible one.
+   * Without a registry the requested address is used as-is.
+   */
+  private resolveLiquidityProvider(
+    params: OrderCreationParams,
+    quotedOutputAmount: number
+  ): { id: string; settlementAddress?: string; rate?: number } {
+    if (!this.lpRegistry) {
+      return { id: params.liquidityProvider as string };
+    }
+
+    const fiatCurrency = params.fiat?.currency;
+    const provider = params.liquidityProvider
+      ? this.lpRegistry.assertEligible(params.liquidityProvider, params.outputToken, quotedOutputAmount, fiatCurrency)
+      : this.lpRegistry.selectBestProvider(params.outputToken, quotedOutputAmount, fiatCurrency);
+
+    return { id: provider.id, settlementAddress: provider.settlementAddress, rate: provider.rate };
+  }
+
+  // Fiat side of an off-ramp order, priced at the LP's published rate when available
+  private buildFiatPayout(
+    params: OrderCreationParams,
+    quotedOutputAmount: number,
+    lpRate?: number
+  ): FiatPayout | undefined {
+    if (!params.fiat) return undefined;
+
+    const rate = lpRate ?? params.fiat.rate;
+    const amount = rate === undefined
+      ? undefined
+      : computeFiatAmount(quotedOutputAmount, params.outputToken, rate);
+    if (rate === undefined || amount === undefined) {
+      throw new OrderError('No fiat rate available for this order', 'INVALID_PARAMS');
+    }
+
+    return {
+      currency: params.fiat.currency,
+      amount,
+      rate,
+      recipient: {
+        institution: params.fiat.recipient.institution.trim(),
+        accountIdentifier: params.fiat.recipient.accountIdentifier.trim(),
+        accountName: params.fiat.recipient.accountName.trim()
+      }
+    };
+  }
+
+  private validateOrderParams(params: OrderCreationParams): void {
+    if (!params.inputToken || !params.outputToken) {
+      throw new OrderError('Input and output tokens are required', 'INVALID_PARAMS');
+    }
+
+    if (params.inputToken === params.outputToken) {
+      throw new OrderError('Input and output tokens cannot be the same', 'INVALID_PARAMS');
+    }
+
+    if (params.swapMode !== undefined && params.swapMode !== 'ExactIn' && params.swapMode !== 'ExactOut') {
+      throw new OrderError('Swap mode must be ExactIn or ExactOut', 'INVALID_PARAMS');
+    }
+
+    if (params.swapMode === 'ExactOut') {
+      if (!Number.isInteger(params.outputAmount) || params.outputAmount! <= 0) {
+        throw new OrderError('Output amount must be a positive integer for ExactOut orders', 'INVALID_PARAMS');
+      }
+
+      if (params.inputAmount !== undefined) {
+        throw new OrderError('ExactOut orders take an output amount, not an input amount', 'INVALID_PARAMS');
+      }
+
+      if (params.targetRate && params.targetRate.type !== 'market') {
+        throw new OrderError('ExactOut orders cannot have a target rate', 'INVALID_PARAMS');
+      }
+    } else if (!params.inputAmount || params.inputAmount <= 0) {
+      throw new OrderError('Input amount must be greater than 0', 'INVALID_PARAMS');
+    }
+
+    this.checkLiquidityProvider(params.liquidityProvider, params.outputToken, params.fiat?.currency);
+
+    if (params.fiat) {
+      const fiatErrors = validateFiatDetails(params.fiat.currency, params.fiat.recipient);
+      if (!getTokenByMint(params.outputToken)) {
+        fiatErrors.push('fiat payouts require a supported output token');
+      }
+      if (!this.lpRegistry &&
+        (typeof params.fiat.rate !== 'number' || !Number.isFinite(params.fiat.rate) || params.fiat.rate <= 0)) {
+        fiatErrors.push('fiat rate must be greater than 0');
+      }
+      if (fiatErrors.length > 0) {
+        throw new OrderError(`Invalid fiat details: ${fiatErrors.join('; ')}`, 'INVALID_PARAMS');
+      }
+    }
+
+    if (params.targetRate) {
+      this.validateTargetRate(params);
+    }
+
+    if (params.idempotencyKey !== undefined &&
+      (typeof params.idempotencyKey !== 'string' || !params.idempotencyKey || params.idempotencyKey.length > 255)) {
+      throw new OrderError('Idempotency key must be 1-255 characters', 'INVALID_PARAMS');
+    }
+
+    if (params.expiresAt !== undefined &&
+      (!Number.isFinite(params.expiresAt) || params.expiresAt <= Date.now())) {
+      throw new OrderError('Expiry must be in the future', 'INVALID_PARAMS');
+    }
+
+    if (params.refundAddress) {
+      try {
+        new PublicKey(params.refundAddress);
+      } catch (error) {
+        throw new OrderError('Invalid refund address', 'INVALID_PARAMS');
+      }
+    }
+  }
+
+  private validateTargetRate(params: OrderCreationParams): void {
+    const target = params.targetRate!;
+
+    if (target.type === 'rate') {
+      if (!Number.isFinite(target.outputPerInput) || target.outputPerInput <= 0) {
+        throw new OrderError('Target rate must be greater than 0', 'INVALID_PARAMS');
+      }
+
+      if (!getTokenByMint(params.inputToken) || !getTokenByMint(params.outputToken)) {
+        throw new OrderError('Rate targets require supported input and output tokens', 'INVALID_PARAMS');
+      }
+    } else if (target.type === 'minOutput') {
+      if (!Number.isFinite(target.minOutputAmount) || target.minOutputAmount <= 0) {
+        throw new OrderError('Minimum output amount must be greater than 0', 'INVALID_PARAMS');
+      }
+    } else if (target.type !== 'market') {
+      throw new OrderError('Invalid target rate type', 'INVALID_PARAMS');
+    }
+  }
+
+  // Fill in fields added after an order was stored
+  private normalizeOrder(order: Order): Order {
+    return {
+      ...order,
+      swapMode: order.swapMode ?? 'ExactIn',
+      agreedOutputAmount: order.agreedOutputAmount ?? order.expectedOutputAmount,
+      statusHistory: order.statusHistory ?? [],
+      targetRate: order.targetRate ?? { type: 'market' },
+      expiresAt: order.expiresAt ?? order.timestamp + CONFIG.ORDER_TTL
+    };
+  }
+
+  // Persistence methods (delegated to the configured OrderRepository).
+  // Changes stay in memory when a save fails and are written with the next one.
+  private async persistOrders(): Promise<void> {
+    try {
+      await this.writer.write();
+    } catch (error) {
+      console.error('Failed to persist orders:', error);
+      throw new OrderError(`Failed to persist orders: ${getErrorMessage(error)}`, 'PERSISTENCE_FAILED');
+    }
+  }
+
+  // Refuse to start on an unreadable store: an empty book would overwrite it on the next save
+  private loadPersistedOrders(): void {
+    let storedOrders: Order[];
+    try {
+      storedOrders = this.repository.loadAll();
+    } catch (error) {
+      console.error('Failed to load persisted orders:', error);
+      throw new OrderError(`Failed to load persisted orders: ${getErrorMessage(error)}`, 'PERSISTENCE_FAILED');
+    }
+
+    this.orders = new Map(storedOrders.map(order => [order.id, this.normalizeOrder(order)]));
+    this.index.rebuild(this.orders.values());
+  }
+
+  /**
+   * Export orders (for backup/migration) as a versioned JSON envelope (admin).
+   * Fiat recipient details are masked unless includeSensitive is set.
+   */
+  exportOrders(caller: Caller, options: { includeSensitive?: boolean } = {}): string {
+    const orders = this.getAllOrders(caller);
+    return JSON.stringify(createOrderExport(options.includeSensitive ? orders : orders.map(redactOrder)));
+  }
+
+  /**
+   * Export orders as CSV for accounting (admin)
+   */
+  exportOrdersCsv(caller: Caller): string {
+    return ordersToCsv(this.getAllOrders(caller));
+  }
+
+  /**
+   * Import orders (for backup/migration), merging into the existing order book (admin).
+   * Nothing is written if any record is invalid, or on an ID conflict in 'fail' mode.
+   * Orders whose fiat recipient was masked on export are flagged and cannot be executed or settled.
+   */
+  async importOrders(
+    ordersJson: string,
+    caller: Caller,
+    options: { mode?: ImportConflictMode; dryRun?: boolean } = {}
+  ): Promise<ImportReport> {
+    requireRole(caller, 'admin', 'importing orders');
+
+    const mode = options.mode ?? 'fail';
+    const dryRun = options.dryRun ?? false;
+
+    let records: unknown[];
+    try {
+      records = parseOrderImport(ordersJson);
+    } catch (error) {
+      console.error('Failed to import orders:', error);
+      throw new OrderError(`Invalid orders data format: ${getErrorMessage(error)}`, 'INVALID_PARAMS');
+    }
+
+    const report: ImportReport = {
+      dryRun,
+      applied: false,
+      added: [],
+      overwritten: [],
+      skipped: [],
+      conflicts: [],
+      invalid: []
+    };
+
+    const incoming = new Map<string, Order>();
+    const incomingDeposits = new Set<string>();
+    records.forEach((record, index) => {
+      const errors = validateOrderRecord(record);
+      const id = (record as Partial<Order> | null)?.id;
+
+      if (errors.length === 0 && incoming.has(id!)) {
+        errors.push('duplicate id within import');
+      }
+
+      // Slices of a recurring schedule share the schedule's deposit; any other deposit funds one order
+      const { deposit, scheduleId } = record as Partial<Order>;
+      if (errors.length === 0 && deposit && !scheduleId) {
+        if (incomingDeposits.has(deposit.signature) || this.isDepositUsedElsewhere(deposit.signature, id!)) {
+          errors.push(`deposit ${deposit.signature} is already used by another order`);
+        }
+        incomingDeposits.add(deposit.signature);
+      }
+
+      if (errors.length > 0) {
+        report.invalid.push({ index, id: typeof id === 'string' ? id : undefined, errors });
+        return;
+      }
+
+      const order = this.normalizeOrder(record as Order);
+      if (order.fiat) {
+        order.fiat = { ...order.fiat, recipientMasked: isMaskedFiatRecipient(order.fiat.recipient) || undefined };
+      }
+      incoming.set(order.id, order);
+
+      if (!this.orders.has(order.id)) {
+        report.added.push(order.id);
+      } else if (mode === 'overwrite') {
+        // Execution and refunds keep working on the stored object and would write it back
+        const existing = this.orders.get(order.id)!;
+        if (this.executionsInFlight.has(order.id) || this.refundsInFlight.has(order.id) ||
+          existing.pendingTransaction || existing.pendingRefund) {
+          report.invalid.push({
+            index,
+            id: order.id,
+            errors: ['existing order has a swap or refund in progress and cannot be overwritten']
+          });
+          incoming.delete(order.id);
+          return;
+        }
+        report.overwritten.push(order.id);
+      } else if (mode === 'skip') {
+        report.skipped.push(order.id);
+      } else {
+        report.conflicts.push(order.id);
+      }
+    });
+
+    if (dryRun) {
+      return report;
+    }
+
+    if (report.invalid.length > 0) {
+      throw new OrderError(
+        `Import rejected: ${report.invalid.length} invalid orders (first: ${report.invalid[0].errors.join('; ')})`,
+        'INVALID_PARAMS'
+      );
+    }
+
+    if (report.conflicts.length > 0) {
+      throw new OrderError(
+        `Import rejected: ${report.conflicts.length} orders already exist (first: ${report.conflicts[0]})`,
+        'INVALID_PARAMS'
+      );
+    }
+
+    for (const orderId of [...report.added, ...report.overwritten]) {
+      this.storeOrder(incoming.get(orderId)!);
+    }
+
+    await this.persistOrders();
+    report.applied = true;
+
+    console.log(
+      `Imported orders: ${report.added.length} added, ${report.overwritten.length} overwritten, ` +
+        `${report.skipped.length} skipped`
+    );
+    return report;
+  }
+
+  /**
+   * Clear all orders (admin, use with caution)
+   */
+  async clearAllOrders(caller: Caller): Promise<void> {
+    requireRole(caller, 'admin', 'clearing orders');
+
+    this.orders.clear();
+    this.index.clear();
+    await this.persistOrders();
+    console.log('All orders cleared');
   }
 }
\ No newline at end of file
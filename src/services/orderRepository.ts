@@ -0,0 +1,108 @@
+// src/services/orderRepository.ts
+
+import type { Order, RecurringSchedule } from '@/types';
+
+/**
+ * Storage backend for a collection of records (orders, recurring schedules).
+ * Managers keep records in memory and write through to a repository.
+ */
+export interface Repository<T extends { id: string }> {
+  loadAll(): T[];
+  saveAll(items: T[]): void | Promise<void>;
+}
+
+export type OrderRepository = Repository<Order>;
+export type ScheduleRepository = Repository<RecurringSchedule>;
+
+/**
+ * Write-behind saves for a manager's records. Changes made while a write is
+ * queued share it, so a burst of updates costs one saveAll. The returned
+ * promise settles once a write including the caller's change has finished.
+ */
+export class CoalescedWriter<T extends { id: string }> {
+  private repository: Repository<T>;
+  private snapshot: () => T[];
+  private queued: Promise<void> | null = null;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(repository: Repository<T>, snapshot: () => T[]) {
+    this.repository = repository;
+    this.snapshot = snapshot;
+  }
+
+  write(): Promise<void> {
+    if (!this.queued) {
+      // Start after the running write; a failed write must not block the next one
+      const next = this.tail.catch(() => undefined).then(() => {
+        this.queued = null;
+        return this.repository.saveAll(this.snapshot());
+      });
+
+      this.queued = next;
+      this.tail = next;
+    }
+
+    return this.queued;
+  }
+}
+
+/**
+ * Browser adapter persisting records to localStorage
+ */
+export class LocalStorageRepository<T extends { id: string }> implements Repository<T> {
+  private storageKey: string;
+
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+  }
+
+  loadAll(): T[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    const stored = localStorage.getItem(this.storageKey);
+    if (!stored) {
+      return [];
+    }
+
+    // Stored as [id, record] entries for compatibility with older builds
+    const entries: [string, T][] = JSON.parse(stored);
+    return entries.map(([, item]) => item);
+  }
+
+  saveAll(items: T[]): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const entries = items.map(item => [item.id, item]);
+    localStorage.setItem(this.storageKey, JSON.stringify(entries));
+  }
+}
+
+/**
+ * Browser adapter for the order book
+ */
+export class LocalStorageOrderRepository extends LocalStorageRepository<Order> {
+  constructor(storageKey: string = 'jupiter_orders') {
+    super(storageKey);
+  }
+}
+
+/**
+ * Non-persistent repository (tests, scripts, ephemeral workers)
+ */
+export class InMemoryRepository<T extends { id: string }> implements Repository<T> {
+  private items: T[] = [];
+
+  loadAll(): T[] {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  saveAll(items: T[]): void {
+    this.items = items.map(item => ({ ...item }));
+  }
+}
+
+export class InMemoryOrderRepository extends InMemoryRepository<Order> {}
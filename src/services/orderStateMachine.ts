@@ -0,0 +1,61 @@
+// src/services/orderStateMachine.ts
+
+import { OrderStatus } from '@/types';
+import type { Order, OrderStatusChange } from '@/types';
+import { OrderError } from '@/utils/errors';
+
+// Actor recorded for transitions made by the gateway itself
+export const SYSTEM_ACTOR = 'system';
+
+// Allowed status transitions; terminal statuses map to an empty list
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [
+    OrderStatus.FULFILLED,
+    OrderStatus.FAILED,
+    OrderStatus.CANCELLED,
+    OrderStatus.EXPIRED
+  ],
+  [OrderStatus.FAILED]: [OrderStatus.REFUNDED],
+  [OrderStatus.EXPIRED]: [OrderStatus.REFUNDED],
+  // Cancelled orders may still hold a verified deposit
+  [OrderStatus.CANCELLED]: [OrderStatus.REFUNDED],
+  [OrderStatus.FULFILLED]: [],
+  [OrderStatus.REFUNDED]: []
+};
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Move an order to a new status and record the change in its history.
+ * Throws INVALID_STATUS for transitions not in the table.
+ */
+export function transitionOrder(
+  order: Order,
+  to: OrderStatus,
+  details: { actor: string; reason?: string }
+): OrderStatusChange {
+  if (!canTransition(order.status, to)) {
+    throw new OrderError(
+      `Invalid status transition for order ${order.id}: ${order.status} -> ${to}`,
+      'INVALID_STATUS'
+    );
+  }
+
+  const change: OrderStatusChange = {
+    from: order.status,
+    to,
+    timestamp: Date.now(),
+    actor: details.actor,
+    reason: details.reason
+  };
+
+  order.status = to;
+  order.statusHistory = [...(order.statusHistory ?? []), change];
+
+  return change;
+}
@@ -0,0 +1,46 @@
+// src/services/priceSource.ts
+
+import { CONFIG } from '@/utils/constants';
+
+/**
+ * Source of USD prices (per whole token) used to normalize statistics
+ */
+export interface PriceSource {
+  getUsdPrices(mints: string[]): Promise<Record<string, number>>;
+}
+
+/**
+ * Price source backed by the Jupiter price API
+ */
+export class JupiterPriceSource implements PriceSource {
+  private baseUrl: string;
+
+  constructor(baseUrl: string = CONFIG.JUPITER_PRICE_API) {
+    this.baseUrl = baseUrl;
+  }
+
+  async getUsdPrices(mints: string[]): Promise<Record<string, number>> {
+    if (mints.length === 0) {
+      return {};
+    }
+
+    const params = new URLSearchParams({ ids: mints.join(',') });
+    const response = await fetch(`${this.baseUrl}?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get prices: HTTP error! status: ${response.status}`);
+    }
+
+    const data: Record<string, { usdPrice?: number } | null> = await response.json();
+    const prices: Record<string, number> = {};
+
+    for (const mint of mints) {
+      const usdPrice = data[mint]?.usdPrice;
+      if (typeof usdPrice === 'number') {
+        prices[mint] = usdPrice;
+      }
+    }
+
+    return prices;
+  }
+}
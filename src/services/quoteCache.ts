@@ -0,0 +1,165 @@
+// src/services/quoteCache.ts
+
+import { CONFIG } from '@/utils/constants';
+import type { JupiterQuote, QuoteCacheMetrics, SwapMode } from '@/types';
+
+export interface QuoteRequest {
+  inputMint: string;
+  outputMint: string;
+  amount: number;
+  slippageBps: number;
+  platformFeeBps?: number;
+  swapMode?: SwapMode;
+}
+
+interface CachedQuote {
+  quote: JupiterQuote;
+  cachedAt: number;
+}
+
+/**
+ * Short-lived cache of Jupiter quotes keyed on the full quote request. An entry is
+ * served until it is older than `ttlMs` or its contextSlot falls more than
+ * `maxSlotAge` slots behind the newest quote seen. Concurrent identical requests
+ * share one upstream call.
+ */
+export class QuoteCache {
+  private entries: Map<string, CachedQuote> = new Map();
+  private inFlight: Map<string, Promise<JupiterQuote>> = new Map();
+  private latestSlot: number = 0;
+  private hits: number = 0;
+  private misses: number = 0;
+  private coalesced: number = 0;
+  private expired: number = 0;
+  private ttlMs: number;
+  private maxSlotAge: number;
+  private maxEntries: number;
+
+  constructor(
+    ttlMs: number = CONFIG.QUOTE_CACHE_TTL,
+    maxSlotAge: number = CONFIG.QUOTE_CACHE_MAX_SLOT_AGE,
+    maxEntries: number = CONFIG.QUOTE_CACHE_MAX_ENTRIES
+  ) {
+    this.ttlMs = ttlMs;
+    this.maxSlotAge = maxSlotAge;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Return a cached quote for the request, or fetch one (joining an identical
+   * in-flight fetch if there is one). `fresh` skips the cache lookup but still
+   * stores the result.
+   */
+  async get(
+    request: QuoteRequest,
+    fetchQuote: () => Promise<JupiterQuote>,
+    options: { fresh?: boolean } = {}
+  ): Promise<JupiterQuote> {
+    const key = QuoteCache.getKey(request);
+
+    if (!options.fresh) {
+      const cached = this.lookup(key);
+      if (cached) {
+        this.hits++;
+        return cached;
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        this.coalesced++;
+        return pending;
+      }
+    }
+
+    this.misses++;
+    const pending = fetchQuote()
+      .then(quote => {
+        this.store(key, quote);
+        return quote;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === pending) this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Drop every cached quote (in-flight requests are left to finish)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getMetrics(): QuoteCacheMetrics {
+    const lookups = this.hits + this.misses + this.coalesced;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      expired: this.expired,
+      size: this.entries.size,
+      inFlight: this.inFlight.size,
+      hitRate: lookups === 0 ? 0 : (this.hits + this.coalesced) / lookups,
+      latestSlot: this.latestSlot
+    };
+  }
+
+  static getKey(request: QuoteRequest): string {
+    return [
+      request.inputMint,
+      request.outputMint,
+      request.amount,
+      request.slippageBps,
+      request.platformFeeBps ?? 0,
+      request.swapMode ?? 'ExactIn'
+    ].join(':');
+  }
+
+  // Private helper methods
+  private lookup(key: string, now: number = Date.now()): JupiterQuote | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (this.isStale(entry, now)) {
+      this.entries.delete(key);
+      this.expired++;
+      return undefined;
+    }
+
+    return entry.quote;
+  }
+
+  private isStale(entry: CachedQuote, now: number): boolean {
+    return now - entry.cachedAt >= this.ttlMs ||
+      this.latestSlot - (entry.quote.contextSlot ?? 0) > this.maxSlotAge;
+  }
+
+  private store(key: string, quote: JupiterQuote): void {
+    this.latestSlot = Math.max(this.latestSlot, quote.contextSlot ?? 0);
+    if (this.ttlMs <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { quote, cachedAt: Date.now() });
+
+    if (this.entries.size > this.maxEntries) {
+      this.evictStale();
+    }
+
+    // Still over capacity: drop the oldest entries (Map preserves insertion order)
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  private evictStale(now: number = Date.now()): void {
+    for (const [key, entry] of this.entries) {
+      if (this.isStale(entry, now)) {
+        this.entries.delete(key);
+        this.expired++;
+      }
+    }
+  }
+}
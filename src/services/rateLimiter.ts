@@ -0,0 +1,74 @@
+// src/services/rateLimiter.ts
+
+import { RateLimitError } from '@/utils/errors';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket rate limiter keyed by caller (wallet, IP, ...).
+ * Each key holds up to `burst` tokens, refilled at `perMinute` tokens per minute.
+ */
+export class TokenBucketRateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private burst: number;
+  private refillPerMs: number;
+  private label: string;
+
+  constructor(burst: number, perMinute: number, label: string = 'requests') {
+    this.burst = burst;
+    this.refillPerMs = perMinute / 60000;
+    this.label = label;
+  }
+
+  /**
+   * Take one token for a key, throwing RateLimitError when none is left
+   */
+  consume(key: string, now: number = Date.now()): void {
+    const bucket = this.refill(key, now);
+
+    if (bucket.tokens < 1) {
+      const retryAfterMs = Math.ceil((1 - bucket.tokens) / this.refillPerMs);
+      throw new RateLimitError(
+        `Rate limit exceeded for ${this.label}; retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+        retryAfterMs
+      );
+    }
+
+    bucket.tokens -= 1;
+    this.pruneFullBuckets(now);
+  }
+
+  /**
+   * Tokens currently available to a key
+   */
+  getRemaining(key: string, now: number = Date.now()): number {
+    return Math.floor(this.refill(key, now).tokens);
+  }
+
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    bucket.tokens = Math.min(this.burst, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  // Full buckets behave like new ones, so they can be dropped to bound memory
+  private pruneFullBuckets(now: number): void {
+    if (this.buckets.size < 10000) return;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.burst) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,168 @@
+// src/services/recurringOrderManager.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Keypair, type PublicKey } from '@solana/web3.js';
+import { OrderManager } from './orderManger';
+import { RecurringOrderManager } from './recurringOrderManager';
+import { InMemoryOrderRepository } from './orderRepository';
+import { SYSTEM_CALLER, delegatedCaller } from './authorization';
+import { CONFIG, SUPPORTED_TOKENS } from '@/utils/constants';
+import { OrderStatus, ScheduleStatus } from '@/types';
+import type { JupiterQuote, RecurringScheduleParams, SignerWallet } from '@/types';
+
+const jupiter = vi.hoisted(() => ({
+  getQuote: vi.fn(),
+  getDepositAmount: vi.fn(),
+  executeOrderSwap: vi.fn(),
+  transferToken: vi.fn(),
+  getTransactionOutcome: vi.fn(),
+  getSwapReceipt: vi.fn()
+}));
+
+vi.mock('./jupiterService', () => ({
+  JupiterService: class {
+    constructor() {
+      return jupiter;
+    }
+  }
+}));
+
+const USDC = SUPPORTED_TOKENS.USDC.mint;
+const SOL = SUPPORTED_TOKENS.SOL.mint;
+const treasury = Keypair.generate().publicKey.toString();
+const depositWallet = Keypair.generate().publicKey.toString();
+const liquidityProvider = Keypair.generate().publicKey.toString();
+const wallet = { publicKey: Keypair.generate().publicKey } as SignerWallet;
+const interval = CONFIG.MIN_RECURRING_INTERVAL;
+
+// 1 USDC for 0.005 SOL
+const marketQuote: JupiterQuote = {
+  inputMint: USDC,
+  inAmount: '1000000',
+  outputMint: SOL,
+  outAmount: '5000000',
+  otherAmountThreshold: '4975000',
+  swapMode: 'ExactIn',
+  slippageBps: 50,
+  platformFee: null,
+  priceImpactPct: '0',
+  routePlan: [],
+  contextSlot: 1,
+  timeTaken: 0
+};
+
+describe('RecurringOrderManager deposit allocation', () => {
+  let orderManager: OrderManager;
+  let recurring: RecurringOrderManager;
+  let creator: PublicKey;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    jupiter.getQuote.mockResolvedValue(marketQuote);
+    jupiter.getDepositAmount.mockResolvedValue(3_000_000);
+    jupiter.executeOrderSwap.mockResolvedValue({ signature: 'swap-sig', success: true, outputAmount: '5000000' });
+    jupiter.transferToken.mockResolvedValue({ signature: 'refund-sig', success: true, outcome: 'confirmed' });
+
+    orderManager = new OrderManager(undefined, 10, treasury, new InMemoryOrderRepository(), undefined, undefined, depositWallet);
+    recurring = new RecurringOrderManager(orderManager);
+    creator = Keypair.generate().publicKey;
+  });
+
+  const createSchedule = (params: Partial<RecurringScheduleParams> = {}) => recurring.createSchedule({
+    inputToken: USDC,
+    outputToken: SOL,
+    amountPerSlice: 1_000_000,
+    intervalMs: interval,
+    totalSlices: 3,
+    liquidityProvider,
+    depositSignature: 'schedule-deposit',
+    ...params
+  }, creator);
+
+  it('requires a deposit covering every slice', async () => {
+    jupiter.getDepositAmount.mockResolvedValue(2_999_999);
+
+    await expect(createSchedule()).rejects.toMatchObject({ code: 'DEPOSIT_INVALID' });
+  });
+
+  it('does not let an order claim the schedule deposit', async () => {
+    await createSchedule();
+
+    await expect(orderManager.createOrder({
+      inputToken: USDC,
+      outputToken: SOL,
+      inputAmount: 1_000_000,
+      liquidityProvider,
+      depositSignature: 'schedule-deposit'
+    }, delegatedCaller(creator.toString()))).rejects.toMatchObject({ code: 'DEPOSIT_INVALID' });
+  });
+
+  it('funds each slice with its share of the deposit until the schedule completes', async () => {
+    const schedule = await createSchedule();
+    const start = Date.now();
+
+    for (let slice = 0; slice < 3; slice++) {
+      const [result] = await recurring.runDueSchedules(wallet, start + slice * interval);
+      expect(result).toMatchObject({ sliceIndex: slice, success: true });
+    }
+
+    expect(schedule.status).toBe(ScheduleStatus.COMPLETED);
+    expect(schedule.depositAllocated).toBe(3_000_000);
+    for (const orderId of schedule.childOrderIds) {
+      const order = orderManager.getOrder(orderId, SYSTEM_CALLER)!;
+      expect(order.deposit).toMatchObject({ signature: 'schedule-deposit', amount: 1_000_000 });
+      expect(order.status).toBe(OrderStatus.FULFILLED);
+    }
+    expect(recurring.getScheduleProgress(schedule.id)).toMatchObject({ slicesFulfilled: 3, depositRemaining: 0 });
+    expect(await recurring.runDueSchedules(wallet, start + 3 * interval)).toEqual([]);
+  });
+
+  it('leaves the deposit and slice count untouched when a slice cannot be created', async () => {
+    const schedule = await createSchedule();
+    jupiter.getQuote.mockRejectedValueOnce(new Error('Jupiter unavailable'));
+
+    const [result] = await recurring.runDueSchedules(wallet);
+
+    expect(result.success).toBe(false);
+    expect(schedule).toMatchObject({ slicesCreated: 0, slicesSkipped: 1, depositAllocated: 0 });
+    expect(recurring.getScheduleProgress(schedule.id).depositRemaining).toBe(3_000_000);
+  });
+
+  it('skips a slice quoted above the price bound without allocating its share', async () => {
+    const schedule = await createSchedule({ maxOutputPerInput: 0.001 });
+
+    const [result] = await recurring.runDueSchedules(wallet);
+
+    expect(result).toMatchObject({ success: true, skipped: true });
+    expect(schedule).toMatchObject({ slicesCreated: 0, slicesSkipped: 1, depositAllocated: 0 });
+    expect(orderManager.getOrder(result.orderId!, SYSTEM_CALLER)!.deposit).toBeUndefined();
+  });
+
+  it('refunds the unallocated deposit of a cancelled schedule and leaves funded slices refundable', async () => {
+    const schedule = await createSchedule();
+    // The first slice is funded but its swap is not sent, so it stays pending
+    jupiter.executeOrderSwap.mockResolvedValue({ signature: '', success: false, outcome: 'not_sent', error: 'RPC down' });
+    const [result] = await recurring.runDueSchedules(wallet);
+
+    await recurring.cancelSchedule(schedule.id, creator);
+
+    const slice = orderManager.getOrder(result.orderId!, SYSTEM_CALLER)!;
+    expect(slice.status).toBe(OrderStatus.CANCELLED);
+    expect(orderManager.isRefundEligible(slice)).toBe(true);
+
+    await expect(recurring.refundSchedule(schedule.id, wallet, creator)).resolves.toBe('refund-sig');
+    expect(jupiter.transferToken).toHaveBeenCalledWith(wallet, USDC, creator.toString(), 2_000_000, expect.anything());
+
+    // Repeating the refund returns the recorded signature without sending again
+    await expect(recurring.refundSchedule(schedule.id, wallet, creator)).resolves.toBe('refund-sig');
+    expect(jupiter.transferToken).toHaveBeenCalledTimes(1);
+    expect(recurring.getScheduleProgress(schedule.id).depositRemaining).toBe(0);
+  });
+
+  it('does not refund a schedule that is still running', async () => {
+    const schedule = await createSchedule();
+
+    await expect(recurring.refundSchedule(schedule.id, wallet, creator)).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(jupiter.transferToken).not.toHaveBeenCalled();
+  });
+});
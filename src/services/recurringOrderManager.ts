@@ -0,0 +1,653 @@
+// src/services/recurringOrderManager.ts
+
+import { PublicKey } from '@solana/web3.js';
+import { CoalescedWriter, InMemoryRepository, type ScheduleRepository } from './orderRepository';
+import type { OrderManager } from './orderManger';
+import { SYSTEM_CALLER, delegatedCaller } from './authorization';
+import { CONFIG, getTokenByMint } from '@/utils/constants';
+import { OrderError, getErrorCode, getErrorMessage } from '@/utils/errors';
+import { OrderStatus, ScheduleStatus } from '@/types';
+import type {
+  Order,
+  OrderDeposit,
+  RecurringSchedule,
+  RecurringScheduleParams,
+  ScheduleProgress,
+  ScheduleRunResult,
+  SignerWallet
+} from '@/types';
+
+export class RecurringOrderManager {
+  private schedules: Map<string, RecurringSchedule> = new Map();
+  private orderManager: OrderManager;
+  private repository: ScheduleRepository;
+  private writer: CoalescedWriter<RecurringSchedule>;
+  private running: boolean = false;
+  private slicesInFlight: Set<string> = new Set();
+  private refundsInFlight: Set<string> = new Set();
+
+  constructor(
+    orderManager: OrderManager,
+    repository: ScheduleRepository = new InMemoryRepository<RecurringSchedule>()
+  ) {
+    this.orderManager = orderManager;
+    this.repository = repository;
+    this.writer = new CoalescedWriter(repository, () => Array.from(this.schedules.values()));
+
+    // Load persisted data
+    this.loadPersistedSchedules();
+
+    // Schedule deposits fund many orders, so no single order may be created against one
+    orderManager.registerDepositClaims(signature => this.isDepositClaimed(signature));
+  }
+
+  /**
+   * Create a recurring schedule. The first slice is due at startAt (default: now).
+   * Slices only run once a deposit covering every slice has been verified.
+   */
+  async createSchedule(params: RecurringScheduleParams, userPublicKey: PublicKey): Promise<RecurringSchedule> {
+    this.validateScheduleParams(params);
+
+    const creator = userPublicKey.toString();
+    const deposit = params.depositSignature
+      ? await this.verifyScheduleDeposit(params.depositSignature, {
+        inputToken: params.inputToken,
+        creator,
+        amount: params.amountPerSlice * params.totalSlices
+      })
+      : undefined;
+    if (deposit) {
+      this.requireUnclaimedDeposit(deposit.signature);
+    }
+
+    const now = Date.now();
+    const schedule: RecurringSchedule = {
+      id: this.generateScheduleId(),
+      creator,
+      inputToken: params.inputToken,
+      outputToken: params.outputToken,
+      amountPerSlice: params.amountPerSlice,
+      intervalMs: params.intervalMs,
+      totalSlices: params.totalSlices,
+      slicesCreated: 0,
+      slicesSkipped: 0,
+      minOutputPerInput: params.minOutputPerInput,
+      maxOutputPerInput: params.maxOutputPerInput,
+      liquidityProvider: params.liquidityProvider,
+      refundAddress: params.refundAddress || creator,
+      deposit,
+      depositAllocated: 0,
+      status: ScheduleStatus.ACTIVE,
+      createdAt: now,
+      nextRunAt: params.startAt ?? now,
+      childOrderIds: []
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    this.persistSchedules();
+
+    console.log(`Schedule ${schedule.id} created (${schedule.totalSlices} slices)`);
+    return schedule;
+  }
+
+  /**
+   * Attach the creator's on-chain deposit to a schedule (creator only). It must cover
+   * every slice not yet created. Repeating the recorded signature is a no-op.
+   */
+  async recordDeposit(scheduleId: string, signature: string, userPublicKey: PublicKey): Promise<RecurringSchedule> {
+    const schedule = this.getOwnedSchedule(scheduleId, userPublicKey);
+
+    if (schedule.deposit) {
+      if (schedule.deposit.signature === signature) {
+        return schedule;
+      }
+      throw new OrderError(`Schedule ${scheduleId} already has a deposit`, 'INVALID_STATUS');
+    }
+
+    if (schedule.status === ScheduleStatus.CANCELLED || schedule.status === ScheduleStatus.COMPLETED) {
+      throw new OrderError(`Cannot record a deposit for schedule with status: ${schedule.status}`, 'INVALID_STATUS');
+    }
+
+    const deposit = await this.verifyScheduleDeposit(signature, {
+      inputToken: schedule.inputToken,
+      creator: schedule.creator,
+      amount: schedule.amountPerSlice * (schedule.totalSlices - schedule.slicesCreated)
+    });
+
+    if (schedule.deposit) {
+      throw new OrderError(`Schedule ${scheduleId} already has a deposit`, 'INVALID_STATUS');
+    }
+    this.requireUnclaimedDeposit(signature);
+
+    schedule.deposit = deposit;
+    schedule.depositAllocated = 0;
+    this.persistSchedules();
+
+    console.log(`Schedule ${scheduleId} deposit of ${deposit.amount} verified: ${signature}`);
+    return schedule;
+  }
+
+  /**
+   * Pause an active schedule (creator only)
+   */
+  pauseSchedule(scheduleId: string, userPublicKey: PublicKey): RecurringSchedule {
+    const schedule = this.getOwnedSchedule(scheduleId, userPublicKey);
+    if (schedule.status !== ScheduleStatus.ACTIVE) {
+      throw new OrderError(`Cannot pause schedule with status: ${schedule.status}`, 'INVALID_STATUS');
+    }
+
+    schedule.status = ScheduleStatus.PAUSED;
+    this.persistSchedules();
+
+    console.log(`Schedule ${scheduleId} paused`);
+    return schedule;
+  }
+
+  /**
+   * Resume a paused schedule (creator only). Missed slices are not backfilled.
+   */
+  resumeSchedule(scheduleId: string, userPublicKey: PublicKey): RecurringSchedule {
+    const schedule = this.getOwnedSchedule(scheduleId, userPublicKey);
+    if (schedule.status !== ScheduleStatus.PAUSED) {
+      throw new OrderError(`Cannot resume schedule with status: ${schedule.status}`, 'INVALID_STATUS');
+    }
+
+    schedule.status = ScheduleStatus.ACTIVE;
+    schedule.nextRunAt = Math.max(schedule.nextRunAt, Date.now());
+    this.persistSchedules();
+
+    console.log(`Schedule ${scheduleId} resumed`);
+    return schedule;
+  }
+
+  /**
+   * Cancel a schedule and its pending child orders (creator only). Funded child orders
+   * become refundable; the unallocated deposit is returned with refundSchedule.
+   */
+  async cancelSchedule(scheduleId: string, userPublicKey: PublicKey): Promise<RecurringSchedule> {
+    const schedule = this.getOwnedSchedule(scheduleId, userPublicKey);
+    if (schedule.status === ScheduleStatus.CANCELLED || schedule.status === ScheduleStatus.COMPLETED) {
+      throw new OrderError(`Cannot cancel schedule with status: ${schedule.status}`, 'INVALID_STATUS');
+    }
+
+    schedule.status = ScheduleStatus.CANCELLED;
+    this.persistSchedules();
+
+    for (const order of this.getChildOrders(schedule)) {
+      if (order.status !== OrderStatus.PENDING) continue;
+
+      try {
+        await this.orderManager.cancelOrder(order.id, delegatedCaller(schedule.creator), `Schedule ${scheduleId} cancelled`);
+      } catch (error) {
+        console.error(`Failed to cancel order ${order.id} of schedule ${scheduleId}:`, error);
+      }
+    }
+
+    console.log(`Schedule ${scheduleId} cancelled`);
+    return schedule;
+  }
+
+  /**
+   * Return the part of a cancelled or completed schedule's deposit that was never given to
+   * a slice to its refund address (creator only). Slices' own deposits are refunded per order.
+   */
+  async refundSchedule(scheduleId: string, wallet: SignerWallet, userPublicKey: PublicKey): Promise<string> {
+    const schedule = this.getOwnedSchedule(scheduleId, userPublicKey);
+
+    if (schedule.refundSignature) {
+      return schedule.refundSignature;
+    }
+
+    if (schedule.status !== ScheduleStatus.CANCELLED && schedule.status !== ScheduleStatus.COMPLETED) {
+      throw new OrderError(`Cannot refund schedule with status: ${schedule.status}`, 'INVALID_STATUS');
+    }
+
+    // A slice still being created may yet take its share of the deposit
+    if (this.slicesInFlight.has(scheduleId) || this.refundsInFlight.has(scheduleId)) {
+      throw new OrderError(`Schedule ${scheduleId} is busy; retry the refund shortly`, 'INVALID_STATUS');
+    }
+
+    if (this.getDepositRemaining(schedule) <= 0 && !schedule.pendingRefund) {
+      throw new OrderError(`Schedule ${scheduleId} has no unallocated deposit to refund`, 'INVALID_STATUS');
+    }
+
+    this.refundsInFlight.add(scheduleId);
+    try {
+      return await this.performRefund(schedule, wallet);
+    } finally {
+      this.refundsInFlight.delete(scheduleId);
+    }
+  }
+
+  /**
+   * Get schedule by ID
+   */
+  getSchedule(scheduleId: string): RecurringSchedule | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  /**
+   * Get all schedules for a user
+   */
+  getUserSchedules(userPublicKey: PublicKey): RecurringSchedule[] {
+    const userAddress = userPublicKey.toString();
+    return Array.from(this.schedules.values())
+      .filter(schedule => schedule.creator === userAddress)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Get aggregated progress across a schedule's child orders
+   */
+  getScheduleProgress(scheduleId: string): ScheduleProgress {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      throw new OrderError('Schedule not found', 'SCHEDULE_NOT_FOUND');
+    }
+
+    const children = this.getChildOrders(schedule);
+    const fulfilled = children.filter(order => order.status === OrderStatus.FULFILLED);
+
+    return {
+      scheduleId,
+      status: schedule.status,
+      totalSlices: schedule.totalSlices,
+      slicesCreated: schedule.slicesCreated,
+      slicesFulfilled: fulfilled.length,
+      slicesPending: children.filter(order => order.status === OrderStatus.PENDING).length,
+      slicesFailed: children.filter(order =>
+        order.status === OrderStatus.FAILED || order.status === OrderStatus.REFUNDED
+      ).length,
+      slicesSkipped: schedule.slicesSkipped + children.filter(order =>
+        (order.status === OrderStatus.CANCELLED || order.status === OrderStatus.EXPIRED) && !!order.deposit
+      ).length,
+      totalInputSpent: fulfilled.reduce((sum, order) => sum + order.inputAmount, 0),
+      totalOutputReceived: fulfilled.reduce(
+        (sum, order) => sum + (order.actualOutputAmount ?? order.expectedOutputAmount),
+        0
+      ),
+      depositRemaining: this.getDepositRemaining(schedule),
+      nextRunAt: schedule.status === ScheduleStatus.ACTIVE ? schedule.nextRunAt : null
+    };
+  }
+
+  /**
+   * Spawn and execute the next slice of every active schedule that is due
+   */
+  async runDueSchedules(wallet: SignerWallet, now: number = Date.now()): Promise<ScheduleRunResult[]> {
+    // Skip if the previous run is still executing slices
+    if (this.running) return [];
+
+    this.running = true;
+    const results: ScheduleRunResult[] = [];
+
+    try {
+      // Unfunded schedules wait for their deposit instead of spending slices
+      const due = Array.from(this.schedules.values()).filter(schedule =>
+        schedule.status === ScheduleStatus.ACTIVE && schedule.nextRunAt <= now && !!schedule.deposit
+      );
+
+      for (const schedule of due) {
+        this.slicesInFlight.add(schedule.id);
+        try {
+          results.push(await this.runSlice(schedule, wallet, now));
+        } finally {
+          this.slicesInFlight.delete(schedule.id);
+        }
+      }
+
+      await this.refundClosedSchedules(wallet);
+    } finally {
+      this.running = false;
+    }
+
+    return results;
+  }
+
+  // Private helper methods
+  private async refundClosedSchedules(wallet: SignerWallet): Promise<void> {
+    const closed = Array.from(this.schedules.values()).filter(schedule =>
+      (schedule.status === ScheduleStatus.CANCELLED || schedule.status === ScheduleStatus.COMPLETED) &&
+      !schedule.refundSignature &&
+      (this.getDepositRemaining(schedule) > 0 || !!schedule.pendingRefund)
+    );
+
+    for (const schedule of closed) {
+      try {
+        await this.refundSchedule(schedule.id, wallet, new PublicKey(schedule.creator));
+      } catch (error) {
+        console.error(`Refund of schedule ${schedule.id} failed:`, error);
+      }
+    }
+  }
+
+  private async performRefund(schedule: RecurringSchedule, wallet: SignerWallet): Promise<string> {
+    // A refund from an earlier attempt may still land; never send another until it is resolved
+    if (schedule.pendingRefund) {
+      const { signature, lastValidBlockHeight } = schedule.pendingRefund;
+      const outcome = await this.orderManager.getTransferOutcome(signature, lastValidBlockHeight, SYSTEM_CALLER);
+
+      if (outcome === 'confirmed') {
+        return this.completeRefund(schedule, signature);
+      }
+      if (outcome === 'unknown') {
+        throw new OrderError(`Refund ${signature} for schedule ${schedule.id} is still unconfirmed`, 'TRANSACTION_UNCONFIRMED');
+      }
+
+      console.log(`Schedule ${schedule.id} refund ${signature} ${outcome} without moving funds`);
+      schedule.pendingRefund = undefined;
+      await this.saveSchedules();
+    }
+
+    const amount = this.getDepositRemaining(schedule);
+    console.log(`Refunding ${amount} of schedule ${schedule.id}'s deposit to ${schedule.refundAddress}...`);
+
+    const result = await this.orderManager.refundExternalDeposit(
+      wallet,
+      { inputToken: schedule.inputToken, refundAddress: schedule.refundAddress, amount },
+      // Record the refund before its first broadcast so a retry cannot pay twice
+      async (signature, lastValidBlockHeight) => {
+        schedule.pendingRefund = { signature, lastValidBlockHeight, submittedAt: Date.now() };
+        try {
+          await this.saveSchedules();
+        } catch (error) {
+          schedule.pendingRefund = undefined;
+          throw error;
+        }
+      },
+      SYSTEM_CALLER
+    );
+
+    if (result.success) {
+      return this.completeRefund(schedule, result.signature);
+    }
+
+    if (result.outcome === 'unknown') {
+      throw new OrderError(
+        `Refund ${result.signature} for schedule ${schedule.id} is not yet confirmed; request the refund again to re-check`,
+        'TRANSACTION_UNCONFIRMED'
+      );
+    }
+
+    // Not sent, failed on-chain or expired: no funds moved, so the refund may be retried
+    if (schedule.pendingRefund) {
+      schedule.pendingRefund = undefined;
+      await this.saveSchedules();
+    }
+
+    throw new OrderError(`Refund failed: ${result.error || 'Unknown transfer error'}`, 'REFUND_FAILED');
+  }
+
+  private async completeRefund(schedule: RecurringSchedule, signature: string): Promise<string> {
+    schedule.refundSignature = signature;
+    schedule.pendingRefund = undefined;
+    await this.saveSchedules();
+
+    console.log(`Schedule ${schedule.id} deposit remainder refunded: ${signature}`);
+    return signature;
+  }
+
+  private async runSlice(
+    schedule: RecurringSchedule,
+    wallet: SignerWallet,
+    now: number
+  ): Promise<ScheduleRunResult> {
+    const sliceIndex = schedule.slicesCreated;
+    const attempt = schedule.slicesCreated + schedule.slicesSkipped;
+    const result: ScheduleRunResult = { scheduleId: schedule.id, sliceIndex, success: false };
+
+    // Each slice spends its share of the schedule's verified deposit, never the executor's funds
+    if (this.getDepositRemaining(schedule) < schedule.amountPerSlice) {
+      schedule.status = ScheduleStatus.PAUSED;
+      this.persistSchedules();
+
+      console.warn(`Schedule ${schedule.id} paused: deposit does not cover slice ${sliceIndex}`);
+      result.error = 'Schedule deposit does not cover the next slice';
+      result.code = 'DEPOSIT_REQUIRED';
+      return result;
+    }
+
+    // Move the next run first so a failing slice is not retried every tick. Only a funded
+    // order uses up one of totalSlices; skipped slices leave their share in the deposit.
+    schedule.nextRunAt = now + schedule.intervalMs;
+    this.persistSchedules();
+
+    // Child orders run under the authorization the creator gave when scheduling
+    const creator = delegatedCaller(schedule.creator);
+    let funded = false;
+
+    try {
+      const orderId = await this.orderManager.createScheduledOrder({
+        inputToken: schedule.inputToken,
+        outputToken: schedule.outputToken,
+        inputAmount: schedule.amountPerSlice,
+        targetRate: schedule.minOutputPerInput
+          ? { type: 'rate', outputPerInput: schedule.minOutputPerInput }
+          : undefined,
+        liquidityProvider: schedule.liquidityProvider,
+        refundAddress: schedule.refundAddress,
+        // A slice that cannot fill before the next one is due is skipped
+        expiresAt: now + schedule.intervalMs,
+        idempotencyKey: `${schedule.id}:${attempt}`,
+        scheduleId: schedule.id
+      }, schedule.creator, SYSTEM_CALLER);
+
+      result.orderId = orderId;
+      schedule.childOrderIds.push(orderId);
+      this.persistSchedules();
+
+      const order = this.orderManager.getOrder(orderId, creator)!;
+      if (schedule.maxOutputPerInput && this.getQuotedRate(order) > schedule.maxOutputPerInput) {
+        await this.orderManager.cancelOrder(orderId, creator, 'Quoted rate above schedule price bound');
+        this.skipSlice(schedule);
+        result.skipped = true;
+        result.success = true;
+        return result;
+      }
+
+      // Cancelled while the order was being created: leave the deposit for the schedule refund
+      if (schedule.status === ScheduleStatus.CANCELLED) {
+        await this.orderManager.cancelOrder(orderId, creator, `Schedule ${schedule.id} cancelled`);
+        this.skipSlice(schedule);
+        result.skipped = true;
+        result.success = true;
+        return result;
+      }
+
+      // Reserve the slice's share before funding so a refund cannot also return it
+      const deposit = schedule.deposit!;
+      schedule.depositAllocated += schedule.amountPerSlice;
+      try {
+        await this.orderManager.fundOrder(orderId, {
+          signature: deposit.signature,
+          amount: schedule.amountPerSlice,
+          verifiedAt: deposit.verifiedAt
+        }, SYSTEM_CALLER);
+      } catch (error) {
+        schedule.depositAllocated -= schedule.amountPerSlice;
+        throw error;
+      }
+
+      funded = true;
+      schedule.slicesCreated++;
+      // The schedule may have been paused or cancelled while the slice was funded
+      const open = schedule.status === ScheduleStatus.ACTIVE || schedule.status === ScheduleStatus.PAUSED;
+      if (open && schedule.slicesCreated >= schedule.totalSlices) {
+        schedule.status = ScheduleStatus.COMPLETED;
+      }
+      this.persistSchedules();
+
+      await this.orderManager.executeOrder(orderId, wallet, creator);
+      result.success = true;
+    } catch (error) {
+      // Below the minimum rate: the slice stays pending as a limit order until it expires
+      if (error instanceof OrderError && error.code === 'TARGET_NOT_MET') {
+        result.success = true;
+        return result;
+      }
+
+      console.error(`Slice ${sliceIndex} of schedule ${schedule.id} failed:`, error);
+      result.error = getErrorMessage(error);
+      result.code = getErrorCode(error);
+      if (!funded) {
+        this.skipSlice(schedule);
+      }
+    }
+
+    return result;
+  }
+
+  // Count a due slice that got no funded order; it does not use up totalSlices
+  private skipSlice(schedule: RecurringSchedule): void {
+    schedule.slicesSkipped++;
+    this.persistSchedules();
+  }
+
+  // Output per input in UI units, from the order's stored quote
+  private getQuotedRate(order: Order): number {
+    const inputToken = getTokenByMint(order.inputToken)!;
+    const outputToken = getTokenByMint(order.outputToken)!;
+
+    const inputUnits = parseInt(order.quote.inAmount) / Math.pow(10, inputToken.decimals);
+    const outputUnits = parseInt(order.quote.outAmount) / Math.pow(10, outputToken.decimals);
+    return outputUnits / inputUnits;
+  }
+
+  private getDepositRemaining(schedule: RecurringSchedule): number {
+    return schedule.deposit && !schedule.refundSignature ? schedule.deposit.amount - schedule.depositAllocated : 0;
+  }
+
+  private isDepositClaimed(signature: string): boolean {
+    return Array.from(this.schedules.values()).some(schedule => schedule.deposit?.signature === signature);
+  }
+
+  private verifyScheduleDeposit(
+    signature: string,
+    funding: { inputToken: string; creator: string; amount: number }
+  ): Promise<OrderDeposit> {
+    return this.orderManager.verifyExternalDeposit(signature, funding, SYSTEM_CALLER);
+  }
+
+  // Checked again when attaching a verified deposit: another schedule may have claimed it meanwhile
+  private requireUnclaimedDeposit(signature: string): void {
+    if (this.isDepositClaimed(signature)) {
+      throw new OrderError(`Deposit ${signature} is already used by another schedule`, 'DEPOSIT_INVALID');
+    }
+  }
+
+  private getChildOrders(schedule: RecurringSchedule): Order[] {
+    return schedule.childOrderIds
+      .map(orderId => this.orderManager.getOrder(orderId, delegatedCaller(schedule.creator)))
+      .filter((order): order is Order => !!order);
+  }
+
+  private getOwnedSchedule(scheduleId: string, userPublicKey: PublicKey): RecurringSchedule {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      throw new OrderError('Schedule not found', 'SCHEDULE_NOT_FOUND');
+    }
+
+    if (schedule.creator !== userPublicKey.toString()) {
+      throw new OrderError('Unauthorized: Only schedule creator can modify', 'UNAUTHORIZED');
+    }
+
+    return schedule;
+  }
+
+  private generateScheduleId(): string {
+    let scheduleId: string;
+    do {
+      scheduleId = `schedule_${Date.now()}_${crypto.randomUUID().replace(/-/g, '')}`;
+    } while (this.schedules.has(scheduleId));
+
+    return scheduleId;
+  }
+
+  private validateScheduleParams(params: RecurringScheduleParams): void {
+    if (!params.inputToken || !params.outputToken) {
+      throw new OrderError('Input and output tokens are required', 'INVALID_PARAMS');
+    }
+
+    if (params.inputToken === params.outputToken) {
+      throw new OrderError('Input and output tokens cannot be the same', 'INVALID_PARAMS');
+    }
+
+    if (!params.amountPerSlice || params.amountPerSlice <= 0) {
+      throw new OrderError('Amount per slice must be greater than 0', 'INVALID_PARAMS');
+    }
+
+    if (!Number.isFinite(params.intervalMs) || params.intervalMs < CONFIG.MIN_RECURRING_INTERVAL) {
+      throw new OrderError(
+        `Interval must be at least ${CONFIG.MIN_RECURRING_INTERVAL}ms`,
+        'INVALID_PARAMS'
+      );
+    }
+
+    if (!Number.isInteger(params.totalSlices) || params.totalSlices < 1) {
+      throw new OrderError('Number of slices must be a positive integer', 'INVALID_PARAMS');
+    }
+
+    const { minOutputPerInput, maxOutputPerInput } = params;
+    if (minOutputPerInput !== undefined || maxOutputPerInput !== undefined) {
+      if (!getTokenByMint(params.inputToken) || !getTokenByMint(params.outputToken)) {
+        throw new OrderError('Price bounds require supported input and output tokens', 'INVALID_PARAMS');
+      }
+
+      for (const bound of [minOutputPerInput, maxOutputPerInput]) {
+        if (bound !== undefined && (!Number.isFinite(bound) || bound <= 0)) {
+          throw new OrderError('Price bounds must be greater than 0', 'INVALID_PARAMS');
+        }
+      }
+
+      if (minOutputPerInput !== undefined && maxOutputPerInput !== undefined &&
+        minOutputPerInput > maxOutputPerInput) {
+        throw new OrderError('Minimum price bound cannot exceed maximum', 'INVALID_PARAMS');
+      }
+    }
+
+    // Omitted: each slice is routed to the best eligible provider, as for createOrder
+    this.orderManager.checkLiquidityProvider(params.liquidityProvider, params.outputToken);
+
+    if (params.refundAddress) {
+      try {
+        new PublicKey(params.refundAddress);
+      } catch {
+        throw new OrderError('Invalid refund address', 'INVALID_PARAMS');
+      }
+    }
+  }
+
+  // Persistence methods (delegated to the configured ScheduleRepository)
+  private persistSchedules(): void {
+    this.writer.write().catch(error => {
+      console.error('Failed to persist schedules:', error);
+    });
+  }
+
+  // For changes that must be on disk before acting on them, such as a refund about to be sent
+  private async saveSchedules(): Promise<void> {
+    try {
+      await this.writer.write();
+    } catch (error) {
+      console.error('Failed to persist schedules:', error);
+      throw new OrderError(`Failed to persist schedules: ${getErrorMessage(error)}`, 'PERSISTENCE_FAILED');
+    }
+  }
+
+  private loadPersistedSchedules(): void {
+    try {
+      const storedSchedules = this.repository.loadAll();
+      this.schedules = new Map(storedSchedules.map(schedule => [
+        schedule.id,
+        {
+          ...schedule,
+          slicesSkipped: schedule.slicesSkipped ?? 0,
+          depositAllocated: schedule.depositAllocated ?? 0
+        }
+      ]));
+    } catch (error) {
+      console.error('Failed to load persisted schedules:', error);
+      this.schedules = new Map();
+    }
+  }
+}
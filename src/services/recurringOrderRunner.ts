@@ -0,0 +1,54 @@
+// src/services/recurringOrderRunner.ts
+
+import { CONFIG } from '@/utils/constants';
+import type { RecurringOrderManager } from './recurringOrderManager';
+import type { SignerWallet } from '@/types';
+
+/**
+ * Periodically spawns and executes due slices of recurring schedules
+ */
+export class RecurringOrderRunner {
+  private recurringOrderManager: RecurringOrderManager;
+  private wallet: SignerWallet;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    recurringOrderManager: RecurringOrderManager,
+    wallet: SignerWallet,
+    intervalMs: number = CONFIG.RECURRING_POLL_INTERVAL
+  ) {
+    this.recurringOrderManager = recurringOrderManager;
+    this.wallet = wallet;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start running schedules (no-op if already running)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.recurringOrderManager.runDueSchedules(this.wallet)
+        .catch(error => console.error('Recurring order run failed:', error));
+    }, this.intervalMs);
+
+    console.log(`Recurring order runner started (every ${this.intervalMs}ms)`);
+  }
+
+  /**
+   * Stop running schedules
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('Recurring order runner stopped');
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
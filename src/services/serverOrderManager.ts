@@ -0,0 +1,192 @@
+// src/services/serverOrderManager.ts
+// Server-only: shared OrderManager instance and executor wallet for API routes.
+
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import { OrderManager } from './orderManger';
+import { FileOrderRepository, FileRepository, FileScheduleRepository } from './fileOrderRepository';
+import { LimitOrderWatcher } from './limitOrderWatcher';
+import { LiquidityProviderRegistry } from './liquidityProviderRegistry';
+import { OrderExpirySweeper } from './orderExpirySweeper';
+import { RecurringOrderManager } from './recurringOrderManager';
+import { RecurringOrderRunner } from './recurringOrderRunner';
+import { WebhookService } from './webhookService';
+import { WalletAuthenticator } from './walletAuth';
+import { TokenBucketRateLimiter } from './rateLimiter';
+import { CONFIG } from '@/utils/constants';
+import { OrderError } from '@/utils/errors';
+import type { LiquidityProvider, SignerWallet, WebhookDelivery, WebhookEndpoint } from '@/types';
+
+// Cached on globalThis so dev-mode hot reloads do not spawn a second order book
+const globalForOrders = globalThis as typeof globalThis & {
+  orderManager?: OrderManager;
+  lpRegistry?: LiquidityProviderRegistry;
+  walletAuthenticator?: WalletAuthenticator;
+  ipRateLimiter?: TokenBucketRateLimiter;
+  recurringOrderManager?: RecurringOrderManager;
+  webhookService?: WebhookService;
+  executorWallet?: SignerWallet;
+  limitOrderWatcher?: LimitOrderWatcher;
+  expirySweeper?: OrderExpirySweeper;
+  recurringOrderRunner?: RecurringOrderRunner;
+};
+
+/**
+ * Get the shared server-side OrderManager
+ */
+export function getOrderManager(): OrderManager {
+  if (!globalForOrders.orderManager) {
+    globalForOrders.orderManager = new OrderManager(
+      CONFIG.RPC_ENDPOINT,
+      CONFIG.PROTOCOL_FEE_BPS,
+      CONFIG.TREASURY_WALLET,
+      new FileOrderRepository(CONFIG.ORDERS_STORE_PATH),
+      getLiquidityProviderRegistry(),
+      new TokenBucketRateLimiter(
+        CONFIG.ORDER_RATE_LIMIT_WALLET_BURST,
+        CONFIG.ORDER_RATE_LIMIT_WALLET_PER_MINUTE,
+        'order creation per wallet'
+      ),
+      getDepositWallet()
+    );
+    getWebhookService().attach(globalForOrders.orderManager);
+  }
+
+  return globalForOrders.orderManager;
+}
+
+/**
+ * Get the shared liquidity provider registry used to validate and route orders
+ */
+export function getLiquidityProviderRegistry(): LiquidityProviderRegistry {
+  if (!globalForOrders.lpRegistry) {
+    globalForOrders.lpRegistry = new LiquidityProviderRegistry(
+      new FileRepository<LiquidityProvider>(CONFIG.LIQUIDITY_PROVIDERS_STORE_PATH, 'providers')
+    );
+  }
+
+  return globalForOrders.lpRegistry;
+}
+
+/**
+ * Get the shared per-IP rate limiter for order creation requests
+ */
+export function getIpRateLimiter(): TokenBucketRateLimiter {
+  if (!globalForOrders.ipRateLimiter) {
+    globalForOrders.ipRateLimiter = new TokenBucketRateLimiter(
+      CONFIG.ORDER_RATE_LIMIT_IP_BURST,
+      CONFIG.ORDER_RATE_LIMIT_IP_PER_MINUTE,
+      'order creation per IP'
+    );
+  }
+
+  return globalForOrders.ipRateLimiter;
+}
+
+/**
+ * Get the shared verifier for wallet-signed API requests
+ */
+export function getWalletAuthenticator(): WalletAuthenticator {
+  if (!globalForOrders.walletAuthenticator) {
+    globalForOrders.walletAuthenticator = new WalletAuthenticator(getLiquidityProviderRegistry());
+  }
+
+  return globalForOrders.walletAuthenticator;
+}
+
+/**
+ * Get the shared webhook service (attached to the shared OrderManager)
+ */
+export function getWebhookService(): WebhookService {
+  if (!globalForOrders.webhookService) {
+    globalForOrders.webhookService = new WebhookService(
+      new FileRepository<WebhookEndpoint>(CONFIG.WEBHOOK_ENDPOINTS_STORE_PATH, 'endpoints'),
+      new FileRepository<WebhookDelivery>(CONFIG.WEBHOOK_DELIVERIES_STORE_PATH, 'deliveries')
+    );
+  }
+
+  return globalForOrders.webhookService;
+}
+
+/**
+ * Get the shared server-side RecurringOrderManager
+ */
+export function getRecurringOrderManager(): RecurringOrderManager {
+  if (!globalForOrders.recurringOrderManager) {
+    globalForOrders.recurringOrderManager = new RecurringOrderManager(
+      getOrderManager(),
+      new FileScheduleRepository(CONFIG.SCHEDULES_STORE_PATH)
+    );
+  }
+
+  return globalForOrders.recurringOrderManager;
+}
+
+/**
+ * Get the wallet that signs order executions on the server
+ */
+export function getExecutorWallet(): SignerWallet {
+  if (!globalForOrders.executorWallet) {
+    const secretKey = process.env.EXECUTOR_SECRET_KEY;
+    if (!secretKey) {
+      throw new OrderError('Executor wallet not configured', 'CONFIGURATION_ERROR');
+    }
+
+    let keypair: Keypair;
+    try {
+      keypair = Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secretKey)));
+    } catch {
+      throw new OrderError('Invalid executor secret key', 'CONFIGURATION_ERROR');
+    }
+
+    globalForOrders.executorWallet = {
+      publicKey: keypair.publicKey,
+      async signTransaction(transaction) {
+        if (transaction instanceof VersionedTransaction) {
+          transaction.sign([keypair]);
+        } else {
+          transaction.partialSign(keypair);
+        }
+        return transaction;
+      }
+    };
+  }
+
+  return globalForOrders.executorWallet;
+}
+
+// Deposits go to the executor wallet, which spends and refunds them, unless configured explicitly
+function getDepositWallet(): string {
+  if (CONFIG.DEPOSIT_WALLET) {
+    return CONFIG.DEPOSIT_WALLET;
+  }
+
+  return process.env.EXECUTOR_SECRET_KEY ? getExecutorWallet().publicKey.toString() : '';
+}
+
+/**
+ * Start background order jobs enabled through the environment
+ */
+export function startBackgroundJobs(): void {
+  if (process.env.LIMIT_ORDER_WATCHER_ENABLED === 'true' && !globalForOrders.limitOrderWatcher) {
+    globalForOrders.limitOrderWatcher = new LimitOrderWatcher(getOrderManager(), getExecutorWallet());
+    globalForOrders.limitOrderWatcher.start();
+  }
+
+  if (process.env.ORDER_EXPIRY_SWEEPER_ENABLED === 'true' && !globalForOrders.expirySweeper) {
+    const refundWallet = process.env.EXPIRY_AUTO_REFUND === 'true' ? getExecutorWallet() : undefined;
+    globalForOrders.expirySweeper = new OrderExpirySweeper(
+      getOrderManager(),
+      CONFIG.EXPIRY_SWEEP_INTERVAL,
+      refundWallet
+    );
+    globalForOrders.expirySweeper.start();
+  }
+
+  if (process.env.RECURRING_ORDERS_ENABLED === 'true' && !globalForOrders.recurringOrderRunner) {
+    globalForOrders.recurringOrderRunner = new RecurringOrderRunner(
+      getRecurringOrderManager(),
+      getExecutorWallet()
+    );
+    globalForOrders.recurringOrderRunner.start();
+  }
+}
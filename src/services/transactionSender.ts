@@ -0,0 +1,125 @@
+// src/services/transactionSender.ts
+
+import type { Connection, SignatureStatus, TransactionError } from '@solana/web3.js';
+import { CONFIG } from '@/utils/constants';
+import { getErrorMessage } from '@/utils/errors';
+import type { TransactionOutcome } from '@/types';
+
+export interface SendResult {
+  signature: string;
+  outcome: TransactionOutcome;
+  error?: string;
+  err?: TransactionError; // On-chain error when the outcome is 'failed'
+}
+
+/**
+ * Submits a signed transaction and rebroadcasts it until it confirms, fails on-chain
+ * or its blockhash expires. The signature status is always checked before reporting
+ * a transaction as expired, so one that landed is never reported as dropped.
+ */
+export class TransactionSender {
+  private connection: Connection;
+  private rebroadcastIntervalMs: number;
+  private timeoutMs: number;
+
+  constructor(
+    connection: Connection,
+    rebroadcastIntervalMs: number = CONFIG.TX_REBROADCAST_INTERVAL,
+    timeoutMs: number = CONFIG.TX_CONFIRM_TIMEOUT
+  ) {
+    this.connection = connection;
+    this.rebroadcastIntervalMs = rebroadcastIntervalMs;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Send `rawTransaction` (already signed; `signature` is its first signature) and
+   * wait for a final outcome
+   */
+  async sendAndConfirm(
+    rawTransaction: Uint8Array,
+    signature: string,
+    lastValidBlockHeight: number
+  ): Promise<SendResult> {
+    const deadline = Date.now() + this.timeoutMs;
+    let lastError: string | undefined;
+
+    while (Date.now() < deadline) {
+      try {
+        // We rebroadcast ourselves rather than relying on the RPC node's retry queue
+        await this.connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+      } catch (error) {
+        // A failed broadcast may still have reached a leader; keep polling the signature
+        lastError = getErrorMessage(error);
+        console.warn(`Broadcast of ${signature} failed: ${lastError}`);
+      }
+
+      await this.sleep(this.rebroadcastIntervalMs);
+
+      const landed = this.toResult(signature, await this.getStatus(signature, false));
+      if (landed) return landed;
+
+      if (await this.isBlockhashExpired(lastValidBlockHeight)) {
+        return this.checkOutcome(signature, lastValidBlockHeight);
+      }
+    }
+
+    const result = await this.checkOutcome(signature, lastValidBlockHeight);
+    if (result.outcome === 'unknown') {
+      result.error = `Transaction ${signature} not confirmed within ${Math.round(this.timeoutMs / 1000)}s` +
+        (lastError ? ` (last broadcast error: ${lastError})` : '');
+    }
+    return result;
+  }
+
+  /**
+   * Resolve the outcome of a previously sent transaction. It is only reported as
+   * expired once its blockhash has expired and the signature is not found.
+   */
+  async checkOutcome(signature: string, lastValidBlockHeight: number): Promise<SendResult> {
+    const status = await this.getStatus(signature, true);
+    const landed = this.toResult(signature, status);
+    if (landed) return landed;
+
+    if (status === null && await this.isBlockhashExpired(lastValidBlockHeight)) {
+      return { signature, outcome: 'expired', error: 'Transaction expired before it was confirmed' };
+    }
+
+    return { signature, outcome: 'unknown', error: `Transaction ${signature} has not been confirmed yet` };
+  }
+
+  // Private helper methods
+  private toResult(signature: string, status: SignatureStatus | null | undefined): SendResult | null {
+    if (!status || (status.confirmationStatus !== 'confirmed' && status.confirmationStatus !== 'finalized')) {
+      return null;
+    }
+
+    return status.err
+      ? { signature, outcome: 'failed', error: `Transaction failed: ${JSON.stringify(status.err)}`, err: status.err }
+      : { signature, outcome: 'confirmed' };
+  }
+
+  // undefined when the RPC call itself failed, null when the signature is not found
+  private async getStatus(signature: string, searchTransactionHistory: boolean): Promise<SignatureStatus | null | undefined> {
+    try {
+      const { value } = await this.connection.getSignatureStatus(signature, { searchTransactionHistory });
+      return value;
+    } catch (error) {
+      console.warn(`Status check for ${signature} failed: ${getErrorMessage(error)}`);
+      return undefined;
+    }
+  }
+
+  private async isBlockhashExpired(lastValidBlockHeight: number): Promise<boolean> {
+    try {
+      return await this.connection.getBlockHeight('confirmed') > lastValidBlockHeight;
+    } catch (error) {
+      console.warn(`Block height check failed: ${getErrorMessage(error)}`);
+      return false;
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,156 @@
+// src/services/walletAuth.ts
+// Server-only: verifies ed25519 signatures with Node's crypto module.
+//
+// Clients sign buildAuthMessage(method, path, timestamp, hashRequestBody(body))
+// with their wallet (signMessage) and send the wallet, timestamp and base64
+// signature in the X-Wallet-Address, X-Wallet-Timestamp and X-Wallet-Signature
+// headers. JSON bodies are hashed as serialized by JSON.stringify, so clients
+// should send exactly JSON.stringify(body).
+
+import { createHash, createPublicKey, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import type { LiquidityProviderRegistry } from './liquidityProviderRegistry';
+import { CONFIG } from '@/utils/constants';
+import { OrderError } from '@/utils/errors';
+import type { Caller, Role } from '@/types';
+
+export const AUTH_WALLET_HEADER = 'X-Wallet-Address';
+export const AUTH_TIMESTAMP_HEADER = 'X-Wallet-Timestamp';
+export const AUTH_SIGNATURE_HEADER = 'X-Wallet-Signature';
+
+// DER prefix turning a raw 32-byte ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Message a wallet signs to authenticate one API request
+ */
+export function buildAuthMessage(method: string, path: string, timestamp: number, bodyHash: string): string {
+  return `Jupiter Swap Gateway request\n${method.toUpperCase()} ${path}\nTimestamp: ${timestamp}\nBody: ${bodyHash}`;
+}
+
+/**
+ * SHA-256 (hex) of a request body; an absent body hashes as the empty string
+ */
+export function hashRequestBody(body: unknown): string {
+  const serialized = body === undefined || body === null || body === ''
+    ? ''
+    : typeof body === 'string' ? body : JSON.stringify(body);
+
+  return createHash('sha256').update(serialized, 'utf8').digest('hex');
+}
+
+// Decode a base64 ed25519 signature, accepting only the canonical encoding of exactly 64 bytes
+function decodeSignature(value: string): Buffer | null {
+  const bytes = Buffer.from(value, 'base64');
+  return bytes.length === 64 && bytes.toString('base64') === value ? bytes : null;
+}
+
+/**
+ * Verify a wallet's ed25519 signature over a message
+ */
+export function verifyWalletSignature(publicKey: PublicKey, message: string, signature: Uint8Array): boolean {
+  if (signature.length !== 64) return false;
+
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+    format: 'der',
+    type: 'spki'
+  });
+
+  return verify(null, Buffer.from(message, 'utf8'), key, signature);
+}
+
+/**
+ * Resolves signed requests to callers: admins come from CONFIG.ADMIN_WALLETS,
+ * liquidity providers from the LP registry
+ */
+export class WalletAuthenticator {
+  private lpRegistry: LiquidityProviderRegistry;
+  private adminWallets: Set<string>;
+  private maxAge: number;
+  private usedSignatures: Map<string, number> = new Map();
+
+  constructor(
+    lpRegistry: LiquidityProviderRegistry,
+    adminWallets: string[] = CONFIG.ADMIN_WALLETS,
+    maxAge: number = CONFIG.AUTH_MAX_AGE
+  ) {
+    this.lpRegistry = lpRegistry;
+    this.adminWallets = new Set(adminWallets);
+    this.maxAge = maxAge;
+  }
+
+  /**
+   * Verify a signed request and return its caller. Each signature is accepted once.
+   */
+  authenticate(request: {
+    method: string;
+    path: string;
+    body?: unknown;
+    wallet?: string;
+    timestamp?: string;
+    signature?: string;
+  }): Caller {
+    if (!request.wallet || !request.timestamp || !request.signature) {
+      throw new OrderError('Wallet signature required', 'UNAUTHENTICATED');
+    }
+
+    let publicKey: PublicKey;
+    try {
+      publicKey = new PublicKey(request.wallet);
+    } catch {
+      throw new OrderError('Invalid wallet address', 'UNAUTHENTICATED');
+    }
+
+    const timestamp = Number(request.timestamp);
+    const now = Date.now();
+    if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > this.maxAge) {
+      throw new OrderError('Signed request expired', 'UNAUTHENTICATED');
+    }
+
+    const signature = decodeSignature(request.signature);
+    if (!signature) {
+      throw new OrderError('Invalid wallet signature', 'UNAUTHENTICATED');
+    }
+
+    // Keyed on the signature bytes, so re-encoding a used signature cannot replay it
+    const replayKey = signature.toString('hex');
+    this.pruneUsedSignatures(now);
+    if (this.usedSignatures.has(replayKey)) {
+      throw new OrderError('Signed request already used', 'UNAUTHENTICATED');
+    }
+
+    const message = buildAuthMessage(request.method, request.path, timestamp, hashRequestBody(request.body));
+    if (!verifyWalletSignature(publicKey, message, signature)) {
+      throw new OrderError('Invalid wallet signature', 'UNAUTHENTICATED');
+    }
+
+    this.usedSignatures.set(replayKey, timestamp + this.maxAge);
+
+    const wallet = publicKey.toString();
+    return { publicKey: wallet, roles: this.getRoles(wallet) };
+  }
+
+  /**
+   * Roles held by a wallet
+   */
+  getRoles(wallet: string): Role[] {
+    const roles: Role[] = ['user'];
+
+    if (this.lpRegistry.getProvider(wallet)?.status === 'active') {
+      roles.push('liquidityProvider');
+    }
+
+    if (this.adminWallets.has(wallet)) {
+      roles.push('admin');
+    }
+
+    return roles;
+  }
+
+  private pruneUsedSignatures(now: number): void {
+    for (const [signature, expiresAt] of this.usedSignatures) {
+      if (expiresAt < now) this.usedSignatures.delete(signature);
+    }
+  }
+}
@@ -0,0 +1,450 @@
+// src/services/webhookService.ts
+// Server-only: signs payloads with Node's crypto module.
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { SYSTEM_CALLER } from './authorization';
+import { CoalescedWriter, InMemoryRepository, type Repository } from './orderRepository';
+import type { OrderManager } from './orderManger';
+import { CONFIG } from '@/utils/constants';
+import { OrderError, getErrorMessage } from '@/utils/errors';
+import { maskFiatRecipient, redactOrder } from '@/utils/fiat';
+import { isPrivateHostname, publicAddressLookup } from '@/utils/network';
+import type { Order, WebhookDelivery, WebhookEndpoint } from '@/types';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Gateway-Signature';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Gateway-Delivery';
+
+/**
+ * Sign a webhook body. Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`)
+ * and compare it with the v1 value of the signature header.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Notifies LPs and integrators of order status changes through signed webhooks,
+ * retrying failed deliveries with exponential backoff
+ */
+export class WebhookService {
+  private endpoints: Map<string, WebhookEndpoint> = new Map();
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+  private endpointRepository: Repository<WebhookEndpoint>;
+  private deliveryRepository: Repository<WebhookDelivery>;
+  private endpointWriter: CoalescedWriter<WebhookEndpoint>;
+  private deliveryWriter: CoalescedWriter<WebhookDelivery>;
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private orderManager?: OrderManager;
+
+  constructor(
+    endpointRepository: Repository<WebhookEndpoint> = new InMemoryRepository<WebhookEndpoint>(),
+    deliveryRepository: Repository<WebhookDelivery> = new InMemoryRepository<WebhookDelivery>()
+  ) {
+    this.endpointRepository = endpointRepository;
+    this.deliveryRepository = deliveryRepository;
+    this.endpointWriter = new CoalescedWriter(endpointRepository, () => Array.from(this.endpoints.values()));
+    this.deliveryWriter = new CoalescedWriter(deliveryRepository, () => Array.from(this.deliveries.values()));
+
+    // Load persisted data
+    this.loadPersisted();
+  }
+
+  /**
+   * Subscribe to an OrderManager's status changes and resume deliveries left pending.
+   * Returns an unsubscribe function.
+   */
+  attach(orderManager: OrderManager): () => void {
+    this.orderManager = orderManager;
+    this.resumePendingDeliveries();
+
+    const unsubscribeCreated = orderManager.on('orderCreated', ({ order }) =>
+      this.notify(order, 'order.created', { status: order.status, previousStatus: null })
+    );
+    const unsubscribeChanged = orderManager.on('statusChanged', ({ order, change }) =>
+      this.notify(order, 'order.status_changed', {
+        status: change.to,
+        previousStatus: change.from,
+        reason: change.reason
+      })
+    );
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeChanged();
+      if (this.orderManager === orderManager) {
+        this.orderManager = undefined;
+      }
+    };
+  }
+
+  /**
+   * Register an endpoint. The returned endpoint includes the signing secret.
+   */
+  registerEndpoint(params: {
+    url: string;
+    subscriber: string;
+    liquidityProvider?: string;
+  }): WebhookEndpoint {
+    let url: URL;
+    try {
+      url = new URL(params.url);
+    } catch {
+      throw new OrderError('Invalid webhook URL', 'INVALID_PARAMS');
+    }
+
+    if (url.protocol !== 'https:' && process.env.NODE_ENV === 'production') {
+      throw new OrderError('Webhook URL must use https', 'INVALID_PARAMS');
+    }
+
+    if (!CONFIG.WEBHOOK_ALLOW_PRIVATE_TARGETS && isPrivateHostname(url.hostname)) {
+      throw new OrderError('Webhook URL must not target a private, loopback or link-local address', 'INVALID_PARAMS');
+    }
+
+    if (!params.subscriber) {
+      throw new OrderError('Subscriber name is required', 'INVALID_PARAMS');
+    }
+
+    const endpoint: WebhookEndpoint = {
+      id: `whe_${randomUUID().replace(/-/g, '')}`,
+      url: url.toString(),
+      secret: `whsec_${randomBytes(32).toString('hex')}`,
+      subscriber: params.subscriber,
+      liquidityProvider: params.liquidityProvider,
+      active: true,
+      createdAt: Date.now()
+    };
+
+    this.endpoints.set(endpoint.id, endpoint);
+    this.persistEndpoints();
+
+    console.log(`Webhook endpoint ${endpoint.id} registered for ${endpoint.subscriber}`);
+    return endpoint;
+  }
+
+  /**
+   * Enable or disable an endpoint
+   */
+  setEndpointActive(endpointId: string, active: boolean): WebhookEndpoint {
+    const endpoint = this.getEndpointOrThrow(endpointId);
+    endpoint.active = active;
+    this.persistEndpoints();
+    return endpoint;
+  }
+
+  /**
+   * Remove an endpoint. Its delivery log is kept.
+   */
+  removeEndpoint(endpointId: string): void {
+    this.getEndpointOrThrow(endpointId);
+    this.endpoints.delete(endpointId);
+    this.persistEndpoints();
+  }
+
+  getEndpoint(endpointId: string): WebhookEndpoint | undefined {
+    return this.endpoints.get(endpointId);
+  }
+
+  getEndpoints(): WebhookEndpoint[] {
+    return Array.from(this.endpoints.values())
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getDelivery(deliveryId: string): WebhookDelivery | undefined {
+    return this.deliveries.get(deliveryId);
+  }
+
+  /**
+   * Get the delivery log, newest first, optionally for one endpoint or order
+   */
+  getDeliveries(filter: { endpointId?: string; orderId?: string } = {}): WebhookDelivery[] {
+    return Array.from(this.deliveries.values())
+      .filter(delivery =>
+        (!filter.endpointId || delivery.endpointId === filter.endpointId) &&
+        (!filter.orderId || delivery.orderId === filter.orderId)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Manually send a delivery again, regardless of its status
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery) {
+      throw new OrderError('Webhook delivery not found', 'WEBHOOK_NOT_FOUND');
+    }
+
+    this.clearRetry(deliveryId);
+    delivery.status = 'pending';
+    delivery.nextAttemptAt = undefined;
+
+    await this.attemptDelivery(delivery, { manual: true });
+    return delivery;
+  }
+
+  // Private helper methods
+  private notify(order: Order, event: string, details: Record<string, unknown>): void {
+    this.pruneDeliveries();
+
+    const endpoints = Array.from(this.endpoints.values()).filter(endpoint =>
+      endpoint.active &&
+      (!endpoint.liquidityProvider || endpoint.liquidityProvider === order.liquidityProvider)
+    );
+
+    for (const endpoint of endpoints) {
+      const id = `whd_${randomUUID().replace(/-/g, '')}`;
+      const delivery: WebhookDelivery = {
+        id,
+        endpointId: endpoint.id,
+        orderId: order.id,
+        event,
+        payload: JSON.stringify({
+          id,
+          event,
+          createdAt: new Date().toISOString(),
+          // Stored redacted; the order's own LP gets payout details at send time
+          data: {
+            orderId: order.id,
+            ...details,
+            order: redactOrder(order)
+          }
+        }),
+        status: 'pending',
+        attempts: 0,
+        createdAt: Date.now()
+      };
+
+      this.deliveries.set(id, delivery);
+      void this.attemptDelivery(delivery);
+    }
+
+    this.persistDeliveries();
+  }
+
+  private async attemptDelivery(
+    delivery: WebhookDelivery,
+    options: { manual?: boolean } = {}
+  ): Promise<void> {
+    const endpoint = this.endpoints.get(delivery.endpointId);
+    if (!endpoint || (!endpoint.active && !options.manual)) {
+      delivery.status = 'failed';
+      delivery.error = endpoint ? 'Endpoint disabled' : 'Endpoint removed';
+      this.persistDeliveries();
+      return;
+    }
+
+    delivery.attempts++;
+    delivery.lastAttemptAt = Date.now();
+
+    try {
+      const body = this.buildRequestBody(delivery, endpoint);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const status = await this.post(endpoint.url, body, {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body, timestamp),
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id
+      });
+
+      delivery.responseStatus = status;
+      // A redirect could point at an internal address, so it counts as a failure
+      if (status < 200 || status >= 300) {
+        throw new Error(`Endpoint responded with HTTP ${status}`);
+      }
+
+      delivery.status = 'delivered';
+      delivery.deliveredAt = Date.now();
+      delivery.nextAttemptAt = undefined;
+      delivery.error = undefined;
+    } catch (error) {
+      delivery.error = getErrorMessage(error);
+
+      if (delivery.attempts >= CONFIG.WEBHOOK_MAX_ATTEMPTS && !options.manual) {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = undefined;
+        console.error(`Webhook delivery ${delivery.id} failed after ${delivery.attempts} attempts`);
+      } else if (options.manual) {
+        delivery.status = 'failed';
+      } else {
+        this.scheduleRetry(delivery);
+      }
+    }
+
+    this.persistDeliveries();
+  }
+
+  /**
+   * The stored payload has the fiat recipient masked. For an endpoint scoped to the
+   * order's own LP, put the current payout details back in just before sending.
+   */
+  private buildRequestBody(delivery: WebhookDelivery, endpoint: WebhookEndpoint): string {
+    if (!endpoint.liquidityProvider || !this.orderManager) {
+      return delivery.payload;
+    }
+
+    const order = this.orderManager.getOrder(delivery.orderId, SYSTEM_CALLER);
+    if (!order?.fiat || order.liquidityProvider !== endpoint.liquidityProvider) {
+      return delivery.payload;
+    }
+
+    const payload = JSON.parse(delivery.payload);
+    if (payload.data?.order?.fiat) {
+      payload.data.order.fiat.recipient = order.fiat.recipient;
+    }
+    return JSON.stringify(payload);
+  }
+
+  /**
+   * POST a delivery and resolve with the response status. Redirects are not followed.
+   * The host is resolved at connect time by publicAddressLookup, so the address that
+   * passed the private-range check is the one the request goes to.
+   */
+  private post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    const target = new URL(url);
+    const allowPrivate = CONFIG.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+
+    // IP literals are connected to without a lookup
+    if (!allowPrivate && isPrivateHostname(target.hostname)) {
+      return Promise.reject(new Error('Webhook URL targets a private address'));
+    }
+
+    const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+      const req = request(target, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: allowPrivate ? undefined : publicAddressLookup,
+        signal: AbortSignal.timeout(CONFIG.WEBHOOK_TIMEOUT)
+      }, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  /**
+   * Drop finished deliveries past WEBHOOK_DELIVERY_RETENTION, then the oldest finished
+   * ones while the log exceeds WEBHOOK_MAX_DELIVERIES. Pending deliveries are kept.
+   */
+  private pruneDeliveries(): void {
+    const cutoff = Date.now() - CONFIG.WEBHOOK_DELIVERY_RETENTION;
+    let pruned = 0;
+
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status !== 'pending' && delivery.createdAt < cutoff) {
+        this.deliveries.delete(delivery.id);
+        pruned++;
+      }
+    }
+
+    const excess = this.deliveries.size - CONFIG.WEBHOOK_MAX_DELIVERIES;
+    if (excess > 0) {
+      const oldestFinished = Array.from(this.deliveries.values())
+        .filter(delivery => delivery.status !== 'pending')
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .slice(0, excess);
+      for (const delivery of oldestFinished) {
+        this.deliveries.delete(delivery.id);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} webhook deliveries`);
+      this.persistDeliveries();
+    }
+  }
+
+  // Exponential backoff with full jitter, capped at WEBHOOK_RETRY_MAX_DELAY
+  private scheduleRetry(delivery: WebhookDelivery): void {
+    const maxDelay = Math.min(
+      CONFIG.WEBHOOK_RETRY_BASE_DELAY * Math.pow(2, delivery.attempts - 1),
+      CONFIG.WEBHOOK_RETRY_MAX_DELAY
+    );
+    const delay = Math.round(maxDelay / 2 + Math.random() * (maxDelay / 2));
+
+    delivery.nextAttemptAt = Date.now() + delay;
+    this.setRetryTimer(delivery, delay);
+  }
+
+  private setRetryTimer(delivery: WebhookDelivery, delay: number): void {
+    this.clearRetry(delivery.id);
+    this.retryTimers.set(delivery.id, setTimeout(() => {
+      this.retryTimers.delete(delivery.id);
+      void this.attemptDelivery(delivery);
+    }, delay));
+  }
+
+  private clearRetry(deliveryId: string): void {
+    const timer = this.retryTimers.get(deliveryId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(deliveryId);
+    }
+  }
+
+  // Re-arm retries for deliveries still pending from a previous process
+  private resumePendingDeliveries(): void {
+    const now = Date.now();
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status !== 'pending' || this.retryTimers.has(delivery.id)) continue;
+      this.setRetryTimer(delivery, Math.max(0, (delivery.nextAttemptAt ?? now) - now));
+    }
+  }
+
+  private getEndpointOrThrow(endpointId: string): WebhookEndpoint {
+    const endpoint = this.endpoints.get(endpointId);
+    if (!endpoint) {
+      throw new OrderError('Webhook endpoint not found', 'WEBHOOK_NOT_FOUND');
+    }
+    return endpoint;
+  }
+
+  // Persistence methods (delegated to the configured repositories)
+  private persistEndpoints(): void {
+    this.endpointWriter.write().catch(error => {
+      console.error('Failed to persist webhook endpoints:', error);
+    });
+  }
+
+  private persistDeliveries(): void {
+    this.deliveryWriter.write().catch(error => {
+      console.error('Failed to persist webhook deliveries:', error);
+    });
+  }
+
+  // Older logs stored the LP's copy of the order unredacted; mask it once on load
+  private redactStoredPayloads(): void {
+    let redacted = 0;
+    for (const delivery of this.deliveries.values()) {
+      const payload = JSON.parse(delivery.payload);
+      const fiat = payload.data?.order?.fiat;
+      if (!fiat?.recipient || fiat.recipient.accountIdentifier.startsWith('****')) continue;
+
+      fiat.recipient = maskFiatRecipient(fiat.recipient);
+      delivery.payload = JSON.stringify(payload);
+      redacted++;
+    }
+
+    if (redacted > 0) {
+      this.persistDeliveries();
+    }
+  }
+
+  private loadPersisted(): void {
+    try {
+      this.endpoints = new Map(this.endpointRepository.loadAll().map(endpoint => [endpoint.id, endpoint]));
+      this.deliveries = new Map(this.deliveryRepository.loadAll().map(delivery => [delivery.id, delivery]));
+      this.pruneDeliveries();
+      this.redactStoredPayloads();
+    } catch (error) {
+      console.error('Failed to load persisted webhooks:', error);
+    }
+  }
+}
@@ -1,5 +1,7 @@
 // src/types/index.ts
 
+import type { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+
 // Token interface
 export interface Token {
     mint: string;
@@ -24,9 +26,22 @@ export interface Token {
     FULFILLED = 'fulfilled',
     FAILED = 'failed',
     REFUNDED = 'refunded',
-    CANCELLED = 'cancelled'
+    CANCELLED = 'cancelled',
+    EXPIRED = 'expired'
+  }
+
+  // Single entry in an order's status history
+  export interface OrderStatusChange {
+    from: OrderStatus | null;
+    to: OrderStatus;
+    timestamp: number;
+    actor: string;
+    reason?: string;
   }
   
+  // ExactIn spends a fixed input; ExactOut delivers a fixed output
+  export type SwapMode = 'ExactIn' | 'ExactOut';
+
   // Jupiter quote interface
   export interface JupiterQuote {
     inputMint: string;
@@ -81,23 +96,136 @@ export interface Token {
     simulationError: any;
   }
   
+  // Quote cache counters since startup
+  export interface QuoteCacheMetrics {
+    hits: number;
+    misses: number;
+    coalesced: number; // Requests that joined an identical in-flight request
+    expired: number; // Entries dropped for age or a stale contextSlot
+    size: number;
+    inFlight: number;
+    hitRate: number; // (hits + coalesced) / all lookups
+    latestSlot: number;
+  }
+
+  // Target rate for limit orders; market orders execute at any quoted output
+  export type TargetRate =
+    | { type: 'market' }
+    | { type: 'rate'; outputPerInput: number } // output tokens per 1 input token (UI units)
+    | { type: 'minOutput'; minOutputAmount: number }; // smallest units of the output token
+
+  // Difference between the creator-agreed output and a fresh quote at execution time
+  export interface QuoteDrift {
+    expectedOutputAmount: number; // The order's agreedOutputAmount when checked
+    quotedOutputAmount: number;
+    driftBps: number; // Positive when the fresh quote delivers less
+    toleranceBps: number;
+    checkedAt: number;
+    accepted: boolean;
+  }
+
+  // Figures measured from a confirmed swap's balance changes; amounts in smallest units
+  export interface SwapReceipt {
+    outputAmount: number; // Delivered to the recipient's output token account
+    quotedOutputAmount: number;
+    inputAmount?: number; // Spent from the payer's input token accounts, when measurable
+    quotedInputAmount: number;
+    platformFee: number; // Received by the treasury, in the input token
+    networkFee: number; // Lamports
+    slippageBps: number; // Versus the quote; positive when worse (less output, or more input for ExactOut)
+    slot: number;
+    blockTime?: number; // Unix seconds
+  }
+
+  // Decoded reason a swap was rejected in simulation or failed on-chain
+  export type SwapFailureCode =
+    | 'SLIPPAGE_EXCEEDED'
+    | 'INSUFFICIENT_FUNDS'
+    | 'ACCOUNT_NOT_FOUND'
+    | 'COMPUTE_EXCEEDED'
+    | 'BLOCKHASH_EXPIRED'
+    | 'PROGRAM_ERROR'
+    | 'UNKNOWN';
+
+  export interface SwapFailure {
+    code: SwapFailureCode;
+    message: string; // Readable by support staff
+    stage: 'simulation' | 'onChain';
+    instructionIndex?: number;
+    raw?: string; // Original error as JSON
+  }
+
+  // Bank or mobile-money account receiving the fiat payout
+  export interface FiatRecipient {
+    institution: string; // Bank or provider code
+    accountIdentifier: string; // Account number, IBAN or phone number
+    accountName: string;
+  }
+
+  // Fiat side of an off-ramp order; amount is in major units of the currency
+  export interface FiatPayout {
+    currency: string; // ISO 4217 code
+    amount: number;
+    rate: number; // Fiat per output token at creation, from the LP
+    recipient: FiatRecipient;
+    settlementReference?: string; // LP's payout reference, recorded after settlement
+    settledAt?: number;
+    recipientMasked?: boolean; // Imported from a masked export; cannot be executed or settled
+  }
+
+  // Creator's transfer of the input token to the gateway deposit wallet, verified on-chain
+  export interface OrderDeposit {
+    signature: string;
+    amount: number; // Smallest units received from the creator; the most a refund returns
+    verifiedAt: number;
+  }
+
   // Order interface
   export interface Order {
     id: string;
     inputToken: string;
     outputToken: string;
-    inputAmount: number;
-    expectedOutputAmount: number;
+    swapMode: SwapMode;
+    inputAmount: number; // Quoted input for ExactOut orders
+    maxInputAmount?: number; // ExactOut only: most input the creator agreed to spend (quote otherAmountThreshold)
+    expectedOutputAmount: number; // From the latest quote
+    agreedOutputAmount: number; // Output the creator agreed to; set at creation and on re-confirm only
     actualOutputAmount?: number;
     rate: string;
+    targetRate: TargetRate;
     creator: string;
     refundAddress: string;
     liquidityProvider: string;
+    settlementAddress?: string; // From the LP registry when one is configured
     status: OrderStatus;
+    statusHistory: OrderStatusChange[];
     timestamp: number;
+    expiresAt: number;
     quote: JupiterQuote;
+    quoteDrift?: QuoteDrift;
     transactionSignature?: string;
+    // Swap sent but not known to have landed or expired; resolved before any re-execution
+    pendingTransaction?: {
+      signature: string;
+      lastValidBlockHeight: number;
+      submittedAt: number;
+    };
+    depositSignature?: string;
+    deposit?: OrderDeposit; // Set once the deposit has been verified on-chain
+    depositSurplus?: number; // Fulfilled orders: deposit the swap did not spend, returned by refund
+    refundSignature?: string;
+    // Refund sent but not known to have landed or expired; resolved before any new refund
+    pendingRefund?: {
+      signature: string;
+      lastValidBlockHeight: number;
+      submittedAt: number;
+    };
+    idempotencyKey?: string;
+    scheduleId?: string; // Parent recurring schedule, for DCA slices
+    fiat?: FiatPayout;
     errorMessage?: string;
+    failure?: SwapFailure;
+    receipt?: SwapReceipt; // Measured on-chain figures once fulfilled
     protocolFee: number;
     priceImpact: string;
   }
@@ -106,10 +234,130 @@ export interface Token {
   export interface OrderCreationParams {
     inputToken: string;
     outputToken: string;
-    inputAmount: number;
+    swapMode?: SwapMode; // Defaults to ExactIn
+    inputAmount?: number; // Required for ExactIn
+    outputAmount?: number; // Required for ExactOut, in smallest units of the output token
     rate?: string;
-    liquidityProvider: string;
+    targetRate?: TargetRate;
+    liquidityProvider?: string; // Auto-selected from the LP registry when omitted
     refundAddress?: string;
+    depositSignature?: string; // Verified on-chain before the order is created
+    expiresAt?: number; // Unix ms; defaults to CONFIG.ORDER_TTL from creation
+    idempotencyKey?: string; // Client-supplied; scoped to the creator
+    scheduleId?: string;
+    fiat?: {
+      currency: string;
+      recipient: FiatRecipient;
+      rate?: number; // Only used when no LP registry supplies a rate
+    };
+  }
+
+  // Sortable order fields for queries
+  export type OrderSortField = 'timestamp' | 'inputAmount' | 'expectedOutputAmount' | 'expiresAt';
+
+  // Order search filters; amounts are in smallest units of the input token, dates in Unix ms
+  export interface OrderQuery {
+    creator?: string;
+    liquidityProvider?: string;
+    statuses?: OrderStatus[];
+    inputToken?: string;
+    outputToken?: string;
+    createdAfter?: number;
+    createdBefore?: number;
+    minInputAmount?: number;
+    maxInputAmount?: number;
+    signature?: string; // Matches transaction, deposit or refund signatures
+    sortBy?: OrderSortField;
+    sortDirection?: 'asc' | 'desc';
+    limit?: number;
+    cursor?: string; // nextCursor of the previous page
+  }
+
+  // One page of query results
+  export interface OrderPage {
+    orders: Order[];
+    total: number; // Matches across all pages
+    nextCursor: string | null;
+  }
+
+  // Recurring schedule status
+  export enum ScheduleStatus {
+    ACTIVE = 'active',
+    PAUSED = 'paused',
+    COMPLETED = 'completed',
+    CANCELLED = 'cancelled'
+  }
+
+  // Recurring (DCA) schedule that spawns one child order per slice
+  export interface RecurringSchedule {
+    id: string;
+    creator: string;
+    inputToken: string;
+    outputToken: string;
+    amountPerSlice: number; // Smallest units of the input token
+    intervalMs: number;
+    totalSlices: number;
+    slicesCreated: number; // Slices that received a funded order; the schedule completes at totalSlices
+    slicesSkipped: number; // Due slices with no funded order (outside price bounds or creation failed)
+    minOutputPerInput?: number; // Price bounds in UI units; slices outside them are skipped
+    maxOutputPerInput?: number;
+    liquidityProvider?: string; // Auto-selected per slice when omitted
+    refundAddress: string;
+    deposit?: OrderDeposit; // Verified on-chain; funds the slices
+    depositAllocated: number; // Part of the deposit already given to child orders
+    refundSignature?: string; // Unallocated remainder returned once the schedule closed
+    // Remainder refund sent but not known to have landed or expired; resolved before any new refund
+    pendingRefund?: {
+      signature: string;
+      lastValidBlockHeight: number;
+      submittedAt: number;
+    };
+    status: ScheduleStatus;
+    createdAt: number;
+    nextRunAt: number;
+    childOrderIds: string[];
+  }
+
+  // Recurring schedule creation parameters
+  export interface RecurringScheduleParams {
+    inputToken: string;
+    outputToken: string;
+    amountPerSlice: number;
+    intervalMs: number;
+    totalSlices: number;
+    minOutputPerInput?: number;
+    maxOutputPerInput?: number;
+    liquidityProvider?: string; // Auto-selected from the LP registry when omitted
+    refundAddress?: string;
+    depositSignature?: string; // Must cover amountPerSlice * totalSlices
+    startAt?: number;
+  }
+
+  // Aggregated progress across a schedule's child orders
+  export interface ScheduleProgress {
+    scheduleId: string;
+    status: ScheduleStatus;
+    totalSlices: number;
+    slicesCreated: number;
+    slicesFulfilled: number;
+    slicesPending: number;
+    slicesFailed: number;
+    slicesSkipped: number; // Skipped when due, or funded but cancelled or expired without executing
+    totalInputSpent: number;
+    totalOutputReceived: number;
+    depositRemaining: number; // Deposited but neither given to a slice nor refunded
+    nextRunAt: number | null;
+  }
+
+  // Outcome of running one schedule slice
+  export interface ScheduleRunResult {
+    scheduleId: string;
+    sliceIndex: number;
+    orderId?: string;
+    success: boolean;
+    skipped?: boolean;
+    error?: string;
+    code?: ErrorCode;
   }
   
   // Priority fee configuration
@@ -129,7 +377,35 @@ export interface Token {
     fulfilled: number;
     failed: number;
     cancelled: number;
-    totalVolume: number;
+    expired: number;
+    volumeByMint: MintVolumeStats[];
+  }
+
+  // Rolling window for volume statistics
+  export type StatsWindow = 'day' | 'week' | 'month' | 'all';
+
+  // Fulfilled volume and fees for a single input mint
+  export interface MintVolumeStats {
+    mint: string;
+    symbol: string | null; // null for tokens outside SUPPORTED_TOKENS
+    decimals: number | null;
+    orderCount: number;
+    volume: number; // Smallest units
+    fees: number; // Smallest units
+    volumeUi: number | null; // Decimal-adjusted
+    feesUi: number | null;
+    volumeUsd?: number;
+    feesUsd?: number;
+  }
+
+  // Volume statistics for a time window
+  export interface VolumeStats {
+    window: StatsWindow;
+    since: number | null;
+    byMint: MintVolumeStats[];
+    totalVolumeUsd?: number; // Only when a price source is given; excludes unpriced mints
+    totalFeesUsd?: number;
+    unpricedMints?: string[];
   }
   
   // Wallet context type
@@ -142,11 +418,109 @@ export interface Token {
     disconnect: () => Promise<void>;
   }
   
+  // Error codes returned by the order services and API
+  export type ErrorCode =
+    | 'INVALID_PARAMS'
+    | 'UNAUTHENTICATED'
+    | 'UNAUTHORIZED'
+    | 'ORDER_NOT_FOUND'
+    | 'SCHEDULE_NOT_FOUND'
+    | 'WEBHOOK_NOT_FOUND'
+    | 'LP_NOT_FOUND'
+    | 'LP_NOT_ELIGIBLE'
+    | 'RATE_LIMITED'
+    | 'PENDING_ORDER_LIMIT'
+    | 'METHOD_NOT_ALLOWED'
+    | 'INVALID_STATUS'
+    | 'CONFIGURATION_ERROR'
+    | 'PERSISTENCE_FAILED'
+    | 'INTERNAL_ERROR'
+    | 'QUOTE_FAILED'
+    | 'JUPITER_BAD_REQUEST'
+    | 'JUPITER_NO_ROUTE'
+    | 'JUPITER_RATE_LIMITED'
+    | 'JUPITER_UNAVAILABLE'
+    | 'EXECUTION_FAILED'
+    | 'TRANSACTION_EXPIRED'
+    | 'TRANSACTION_UNCONFIRMED'
+    | 'SWAP_NOT_SENT'
+    | 'REFUND_FAILED'
+    | 'DEPOSIT_INVALID'
+    | 'DEPOSIT_REQUIRED'
+    | 'TARGET_NOT_MET'
+    | 'QUOTE_DRIFT';
+
+  // Caller roles; every authenticated wallet is a user, LP and admin are granted on top
+  export type Role = 'user' | 'liquidityProvider' | 'admin';
+
+  // Authenticated identity making an OrderManager call
+  export interface Caller {
+    publicKey: string;
+    roles: Role[];
+  }
+
+  // Liquidity provider availability
+  export type LiquidityProviderStatus = 'active' | 'suspended';
+
+  // Registered liquidity provider; order sizes are in smallest units of the output token
+  export interface LiquidityProvider {
+    id: string; // Provider public key, used as Order.liquidityProvider
+    name: string;
+    settlementAddress: string; // Wallet whose token accounts receive swap output
+    supportedOutputTokens: string[];
+    minOrderSize: number;
+    maxOrderSize: number;
+    rate: number; // Published payout rate per output token; higher is better for users
+    fiatCurrency?: string; // ISO 4217 code the rate is quoted in
+    status: LiquidityProviderStatus;
+    createdAt: number;
+    updatedAt: number;
+  }
+
+  // Webhook endpoint registered by a liquidity provider or integrator
+  export interface WebhookEndpoint {
+    id: string;
+    url: string;
+    secret: string; // HMAC-SHA256 signing secret
+    subscriber: string; // Display name of the LP or integrator
+    liquidityProvider?: string; // Only orders routed to this LP; all orders when omitted
+    active: boolean;
+    createdAt: number;
+  }
+
+  // Webhook delivery status
+  export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+  // One webhook notification and its delivery attempts
+  export interface WebhookDelivery {
+    id: string;
+    endpointId: string;
+    orderId: string;
+    event: string;
+    payload: string; // Exact JSON body that is signed and sent
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    createdAt: number;
+    lastAttemptAt?: number;
+    nextAttemptAt?: number;
+    deliveredAt?: number;
+    responseStatus?: number;
+    error?: string;
+  }
+
+  // Minimal wallet used to sign gateway transactions (wallet adapter or server keypair)
+  export interface SignerWallet {
+    publicKey: PublicKey;
+    signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+  }
+
   // API response wrapper
   export interface ApiResponse<T> {
     success: boolean;
     data?: T;
     error?: string;
+    code?: ErrorCode;
+    retryAfter?: number; // Seconds until a rate-limited request may be retried
     message?: string;
   }
   
@@ -159,9 +533,57 @@ export interface Token {
   }
   
   // Transaction result
+  // How a submitted transaction ended: confirmed, failed on-chain, blockhash expired
+  // without landing, or still undetermined when we stopped waiting
+  export type TransactionOutcome = 'confirmed' | 'failed' | 'expired' | 'unknown';
+
   export interface TransactionResult {
     signature: string;
     success: boolean;
+    outcome?: TransactionOutcome | 'not_sent'; // not_sent: refused or errored before broadcast
+    lastValidBlockHeight?: number;
     error?: string;
+    failure?: SwapFailure;
     outputAmount?: string;
+    receipt?: SwapReceipt;
+  }
+
+  // Versioned order export
+  export interface OrderExportEnvelope {
+    format: string;
+    version: number;
+    exportedAt: string;
+    count: number;
+    orders: Order[];
+  }
+
+  // How an import treats orders whose ID already exists
+  export type ImportConflictMode = 'skip' | 'overwrite' | 'fail';
+
+  // What an import changed (or, for a dry run, would change)
+  export interface ImportReport {
+    dryRun: boolean;
+    applied: boolean;
+    added: string[];
+    overwritten: string[];
+    skipped: string[];
+    conflicts: string[];
+    invalid: { index: number; id?: string; errors: string[] }[];
+  }
+
+  // Outcome of a single order in a batch operation
+  export interface BatchOrderResult {
+    orderId: string;
+    success: boolean;
+    signature?: string;
+    error?: string;
+    code?: ErrorCode;
+  }
+
+  // Outcome of a single refund in a bulk refund run
+  export interface RefundResult {
+    orderId: string;
+    success: boolean;
+    signature?: string;
+    error?: string;
   }
\ No newline at end of file
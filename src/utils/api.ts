@@ -0,0 +1,139 @@
+// src/utils/api.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { CONFIG } from './constants';
+import { ERROR_HTTP_STATUS, OrderError, RateLimitError, getErrorCode, getErrorMessage } from './errors';
+import { getWalletAuthenticator } from '@/services/serverOrderManager';
+import {
+  AUTH_SIGNATURE_HEADER,
+  AUTH_TIMESTAMP_HEADER,
+  AUTH_WALLET_HEADER
+} from '@/services/walletAuth';
+import type { ApiResponse, Caller } from '@/types';
+
+/**
+ * Send a successful ApiResponse
+ */
+export function sendSuccess<T>(
+  res: NextApiResponse<ApiResponse<T>>,
+  data: T,
+  message?: string,
+  status: number = 200
+): void {
+  res.status(status).json({ success: true, data, message });
+}
+
+/**
+ * Send a failed ApiResponse, deriving code and HTTP status from the error
+ */
+export function sendError(res: NextApiResponse<ApiResponse<never>>, error: unknown): void {
+  const code = getErrorCode(error);
+  if (code === 'INTERNAL_ERROR') {
+    console.error('Unhandled API error:', error);
+  }
+
+  const retryAfter = error instanceof RateLimitError ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+  if (retryAfter !== undefined) {
+    res.setHeader('Retry-After', retryAfter);
+  }
+
+  res.status(ERROR_HTTP_STATUS[code]).json({
+    success: false,
+    error: getErrorMessage(error),
+    code,
+    retryAfter
+  });
+}
+
+/**
+ * Reject requests using a method the route does not handle
+ */
+export function allowMethods(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  methods: string[]
+): boolean {
+  if (req.method && methods.includes(req.method)) {
+    return true;
+  }
+
+  res.setHeader('Allow', methods);
+  sendError(res, new OrderError(`Method ${req.method} not allowed`, 'METHOD_NOT_ALLOWED'));
+  return false;
+}
+
+/**
+ * Read a single string value from the query string
+ */
+export function getQueryParam(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read a single string value from a request header
+ */
+export function getHeader(req: NextApiRequest, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Client IP address. Behind CONFIG.TRUSTED_PROXY_COUNT proxies this is the right-most
+ * X-Forwarded-For hop they did not add; earlier entries are client-controlled.
+ */
+export function getClientIp(req: NextApiRequest): string {
+  const remoteAddress = req.socket?.remoteAddress || 'unknown';
+  if (CONFIG.TRUSTED_PROXY_COUNT <= 0) {
+    return remoteAddress;
+  }
+
+  const hops = (getHeader(req, 'x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+
+  // The last trusted proxy is the socket peer and appended the hop before it
+  return hops[hops.length - CONFIG.TRUSTED_PROXY_COUNT] ?? remoteAddress;
+}
+
+/**
+ * Parse a required, non-empty list of order IDs from request input
+ */
+export function parseOrderIds(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(id => typeof id === 'string' && id)) {
+    throw new OrderError('orderIds must be a non-empty array of order IDs', 'INVALID_PARAMS');
+  }
+
+  return value;
+}
+
+/**
+ * Parse a required public key from request input
+ */
+export function parsePublicKey(value: unknown, field: string): PublicKey {
+  if (typeof value !== 'string' || !value) {
+    throw new OrderError(`${field} is required`, 'INVALID_PARAMS');
+  }
+
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new OrderError(`Invalid ${field}`, 'INVALID_PARAMS');
+  }
+}
+
+/**
+ * Authenticate a request from its wallet signature headers
+ */
+export function authenticateRequest(req: NextApiRequest): Caller {
+  return getWalletAuthenticator().authenticate({
+    method: req.method ?? 'GET',
+    path: req.url ?? '',
+    body: req.body,
+    wallet: getHeader(req, AUTH_WALLET_HEADER),
+    timestamp: getHeader(req, AUTH_TIMESTAMP_HEADER),
+    signature: getHeader(req, AUTH_SIGNATURE_HEADER)
+  });
+}
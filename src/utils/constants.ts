@@ -43,11 +43,69 @@ export const SUPPORTED_TOKENS = {
     TREASURY_WALLET: process.env.NEXT_PUBLIC_TREASURY_WALLET || '',
     PROTOCOL_FEE_BPS: parseInt(process.env.NEXT_PUBLIC_PROTOCOL_FEE_BPS || '100'), // 1%
     JUPITER_API_BASE: 'https://lite-api.jup.ag/swap/v1',
+    JUPITER_PRICE_API: 'https://lite-api.jup.ag/price/v3',
     DEFAULT_SLIPPAGE: 50, // 0.5%
     MAX_RETRIES: 3,
-    PRIORITY_LEVEL: 'veryHigh' as const
+    TX_REBROADCAST_INTERVAL: 2 * 1000, // Resend and poll status until confirmed or the blockhash expires
+    SIMULATE_SWAPS: process.env.SIMULATE_SWAPS !== 'false', // Simulate swaps before signing
+    TX_CONFIRM_TIMEOUT: parseInt(process.env.TX_CONFIRM_TIMEOUT || '90000'), // Give up waiting (outcome unknown)
+    RECEIPT_FETCH_ATTEMPTS: 5, // Confirmed transactions can take a moment to be served by getTransaction
+    RECEIPT_FETCH_DELAY: 1000,
+    PRIORITY_LEVEL: 'veryHigh' as const,
+    ORDERS_STORE_PATH: process.env.ORDERS_STORE_PATH || '.data/orders.json', // Server-side order store
+    SCHEDULES_STORE_PATH: process.env.SCHEDULES_STORE_PATH || '.data/schedules.json', // Recurring order schedules
+    LIQUIDITY_PROVIDERS_STORE_PATH: process.env.LIQUIDITY_PROVIDERS_STORE_PATH || '.data/liquidity-providers.json',
+    WEBHOOK_ENDPOINTS_STORE_PATH: process.env.WEBHOOK_ENDPOINTS_STORE_PATH || '.data/webhook-endpoints.json',
+    WEBHOOK_DELIVERIES_STORE_PATH: process.env.WEBHOOK_DELIVERIES_STORE_PATH || '.data/webhook-deliveries.json',
+    WEBHOOK_MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+    WEBHOOK_RETRY_BASE_DELAY: 5 * 1000, // Doubles per attempt: 5s, 10s, 20s...
+    WEBHOOK_RETRY_MAX_DELAY: 60 * 60 * 1000, // 1 hour
+    WEBHOOK_TIMEOUT: 10 * 1000, // 10 seconds
+    WEBHOOK_DELIVERY_RETENTION: parseInt(process.env.WEBHOOK_DELIVERY_RETENTION || '604800000'), // 7 days for finished deliveries
+    WEBHOOK_MAX_DELIVERIES: parseInt(process.env.WEBHOOK_MAX_DELIVERIES || '10000'), // Oldest finished deliveries are dropped first
+    WEBHOOK_ALLOW_PRIVATE_TARGETS: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true', // Local development only
+    RECURRING_POLL_INTERVAL: parseInt(process.env.RECURRING_POLL_INTERVAL || '60000'), // 1 minute
+    MIN_RECURRING_INTERVAL: 60 * 1000, // 1 minute
+    LIMIT_ORDER_POLL_INTERVAL: parseInt(process.env.LIMIT_ORDER_POLL_INTERVAL || '30000'), // 30 seconds
+    ORDER_TTL: parseInt(process.env.ORDER_TTL || '86400000'), // 24 hours
+    EXPIRY_SWEEP_INTERVAL: parseInt(process.env.EXPIRY_SWEEP_INTERVAL || '60000'), // 1 minute
+    QUOTE_EXPIRY_TIME: 5 * 60 * 1000, // 5 minutes
+    MAX_QUOTE_DRIFT_BPS: parseInt(process.env.MAX_QUOTE_DRIFT_BPS || '100'), // 1% below the agreed output
+    MAX_QUOTE_DRIFT_BPS_LIMIT: parseInt(process.env.MAX_QUOTE_DRIFT_BPS_LIMIT || '500'), // Most an admin may allow per execution
+    DEPOSIT_WALLET: process.env.DEPOSIT_WALLET || '', // Receives order deposits; must be the wallet that executes and refunds them
+    ADMIN_WALLETS: (process.env.ADMIN_WALLETS || '').split(',').map(wallet => wallet.trim()).filter(Boolean),
+    TRUSTED_PROXY_COUNT: parseInt(process.env.TRUSTED_PROXY_COUNT || '0'), // Reverse proxies in front of the API that append X-Forwarded-For
+    AUTH_MAX_AGE: 5 * 60 * 1000, // Signed request messages are accepted for 5 minutes
+    IDEMPOTENCY_WINDOW: 24 * 60 * 60 * 1000, // 24 hours
+    ORDER_RATE_LIMIT_WALLET_BURST: parseInt(process.env.ORDER_RATE_LIMIT_WALLET_BURST || '10'),
+    ORDER_RATE_LIMIT_WALLET_PER_MINUTE: parseInt(process.env.ORDER_RATE_LIMIT_WALLET_PER_MINUTE || '10'),
+    ORDER_RATE_LIMIT_IP_BURST: parseInt(process.env.ORDER_RATE_LIMIT_IP_BURST || '30'),
+    ORDER_RATE_LIMIT_IP_PER_MINUTE: parseInt(process.env.ORDER_RATE_LIMIT_IP_PER_MINUTE || '30'),
+    MAX_PENDING_ORDERS_PER_CREATOR: parseInt(process.env.MAX_PENDING_ORDERS_PER_CREATOR || '20'),
+    ORDER_QUERY_DEFAULT_LIMIT: 50,
+    ORDER_QUERY_MAX_LIMIT: 500,
+    JUPITER_TIMEOUT: parseInt(process.env.JUPITER_TIMEOUT || '10000'), // Per attempt
+    JUPITER_MAX_RETRIES: parseInt(process.env.JUPITER_MAX_RETRIES || '3'),
+    JUPITER_RETRY_BASE_DELAY: 250,
+    JUPITER_RETRY_MAX_DELAY: 5 * 1000,
+    JUPITER_BREAKER_THRESHOLD: 5, // Consecutive failures before the circuit opens
+    JUPITER_BREAKER_COOLDOWN: 30 * 1000,
+    QUOTE_CACHE_TTL: parseInt(process.env.QUOTE_CACHE_TTL || '5000'), // 0 disables quote caching
+    QUOTE_CACHE_MAX_SLOT_AGE: parseInt(process.env.QUOTE_CACHE_MAX_SLOT_AGE || '10'), // ~4 seconds of slots
+    QUOTE_CACHE_MAX_ENTRIES: 1000,
+    BATCH_CONCURRENCY: parseInt(process.env.BATCH_CONCURRENCY || '5')
   };
   
+  // Rolling stats windows in milliseconds
+  export const STATS_WINDOWS = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+  } as const;
+
+  export const getTokenByMint = (mint: string) =>
+    Object.values(SUPPORTED_TOKENS).find(token => token.mint === mint);
+
   export const NETWORK_ENDPOINTS = {
     MAINNET: 'https://api.mainnet-beta.solana.com',
     DEVNET: 'https://api.devnet.solana.com',
@@ -68,7 +126,8 @@ export const SUPPORTED_TOKENS = {
     FULFILLED: 'fulfilled',
     FAILED: 'failed',
     REFUNDED: 'refunded',
-    CANCELLED: 'cancelled'
+    CANCELLED: 'cancelled',
+    EXPIRED: 'expired'
   } as const;
   
   // Priority levels for Jupiter transactions
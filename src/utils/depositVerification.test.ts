@@ -0,0 +1,106 @@
+// src/utils/depositVerification.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { Keypair, type ParsedTransactionWithMeta, type TokenBalance } from '@solana/web3.js';
+import { measureDeposit } from './depositVerification';
+import { SUPPORTED_TOKENS } from './constants';
+
+const sender = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const other = Keypair.generate().publicKey;
+const USDC = SUPPORTED_TOKENS.USDC.mint;
+const SOL = SUPPORTED_TOKENS.SOL.mint;
+
+function parsedTransaction(meta: Partial<NonNullable<ParsedTransactionWithMeta['meta']>> | null): ParsedTransactionWithMeta {
+  return {
+    slot: 1,
+    transaction: {
+      signatures: ['sig'],
+      message: {
+        accountKeys: [sender, recipient, other].map(pubkey => ({ pubkey, signer: false, writable: true })),
+        instructions: [],
+        recentBlockhash: ''
+      }
+    },
+    meta: meta && {
+      err: null,
+      fee: 5000,
+      preBalances: [0, 0, 0],
+      postBalances: [0, 0, 0],
+      ...meta
+    }
+  } as ParsedTransactionWithMeta;
+}
+
+function tokenBalance(owner: string, amount: number, mint: string = USDC, accountIndex: number = 0): TokenBalance {
+  return {
+    accountIndex,
+    mint,
+    owner,
+    uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: amount / 1e6 }
+  };
+}
+
+describe('measureDeposit', () => {
+  const accounts = { mint: USDC, sender: sender.toString(), recipient: recipient.toString() };
+
+  it('measures a token transfer from the sender to the recipient', () => {
+    const transaction = parsedTransaction({
+      preTokenBalances: [tokenBalance(accounts.sender, 5_000_000, USDC, 0), tokenBalance(accounts.recipient, 0, USDC, 1)],
+      postTokenBalances: [tokenBalance(accounts.sender, 3_000_000, USDC, 0), tokenBalance(accounts.recipient, 2_000_000, USDC, 1)]
+    });
+
+    expect(measureDeposit(transaction, accounts)).toBe(2_000_000);
+  });
+
+  it('only counts what both left the sender and reached the recipient', () => {
+    // The recipient also received 1 USDC from another wallet in the same transaction
+    const transaction = parsedTransaction({
+      preTokenBalances: [
+        tokenBalance(accounts.sender, 5_000_000, USDC, 0),
+        tokenBalance(accounts.recipient, 0, USDC, 1),
+        tokenBalance(other.toString(), 1_000_000, USDC, 2)
+      ],
+      postTokenBalances: [
+        tokenBalance(accounts.sender, 4_000_000, USDC, 0),
+        tokenBalance(accounts.recipient, 2_000_000, USDC, 1),
+        tokenBalance(other.toString(), 0, USDC, 2)
+      ]
+    });
+
+    expect(measureDeposit(transaction, accounts)).toBe(1_000_000);
+  });
+
+  it('ignores transfers of other mints and from other wallets', () => {
+    const transaction = parsedTransaction({
+      preTokenBalances: [tokenBalance(other.toString(), 2_000_000, USDC, 2), tokenBalance(accounts.sender, 9, 'OtherMint', 0)],
+      postTokenBalances: [tokenBalance(accounts.recipient, 2_000_000, USDC, 1), tokenBalance(accounts.sender, 0, 'OtherMint', 0)]
+    });
+
+    expect(measureDeposit(transaction, accounts)).toBe(0);
+  });
+
+  it('excludes the network fee paid by the sender from native SOL deposits', () => {
+    const transaction = parsedTransaction({
+      fee: 5000,
+      preBalances: [10_000_000, 0, 0],
+      postBalances: [10_000_000 - 1_000_000 - 5000, 1_000_000, 0]
+    });
+
+    expect(measureDeposit(transaction, { ...accounts, mint: SOL })).toBe(1_000_000);
+  });
+
+  it('measures a failed transaction as 0', () => {
+    const transaction = parsedTransaction({
+      err: { InstructionError: [0, { Custom: 1 }] },
+      preTokenBalances: [tokenBalance(accounts.sender, 5_000_000, USDC, 0)],
+      postTokenBalances: [tokenBalance(accounts.recipient, 5_000_000, USDC, 1)]
+    });
+
+    expect(measureDeposit(transaction, accounts)).toBe(0);
+  });
+
+  it('throws when the transaction has no status metadata', () => {
+    expect(() => measureDeposit(parsedTransaction(null), accounts)).toThrow('no status metadata');
+  });
+});
@@ -0,0 +1,63 @@
+// src/utils/depositVerification.ts
+
+import type { ParsedTransactionWithMeta, TokenBalance as ChainTokenBalance } from '@solana/web3.js';
+import { SUPPORTED_TOKENS } from './constants';
+
+export interface DepositAccounts {
+  mint: string; // Order input token; native SOL is measured in lamports
+  sender: string; // Wallet expected to fund the deposit (the order creator)
+  recipient: string; // Gateway deposit wallet
+}
+
+/**
+ * Measure how much of `mint` a confirmed transaction moved from the sender's wallet
+ * to the recipient's, from the parsed pre/post balances. Only the part that both left
+ * the sender and reached the recipient counts; a failed transaction measures 0.
+ */
+export function measureDeposit(transaction: ParsedTransactionWithMeta, accounts: DepositAccounts): number {
+  const meta = transaction.meta;
+  if (!meta) {
+    throw new Error('Transaction has no status metadata');
+  }
+
+  if (meta.err) {
+    return 0;
+  }
+
+  const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toString());
+
+  let received: number;
+  let sent: number;
+  if (accounts.mint === SUPPORTED_TOKENS.SOL.mint) {
+    const lamportDelta = (wallet: string) => {
+      const index = accountKeys.indexOf(wallet);
+      return index === -1 ? 0 : meta.postBalances[index] - meta.preBalances[index];
+    };
+
+    // The network fee is paid by the first account and is not part of the deposit
+    const senderFee = accountKeys[0] === accounts.sender ? meta.fee : 0;
+    received = lamportDelta(accounts.recipient);
+    sent = -lamportDelta(accounts.sender) - senderFee;
+  } else {
+    const pre = meta.preTokenBalances ?? [];
+    const post = meta.postTokenBalances ?? [];
+    received = getOwnerDelta(pre, post, accounts.recipient, accounts.mint);
+    sent = -getOwnerDelta(pre, post, accounts.sender, accounts.mint);
+  }
+
+  return Math.max(0, Math.min(received, sent));
+}
+
+// Change across all of a wallet's token accounts for one mint
+function getOwnerDelta(
+  pre: ChainTokenBalance[],
+  post: ChainTokenBalance[],
+  owner: string,
+  mint: string
+): number {
+  const total = (balances: ChainTokenBalance[]) => balances
+    .filter(balance => balance.owner === owner && balance.mint === mint)
+    .reduce((sum, balance) => sum + Number(balance.uiTokenAmount.amount), 0);
+
+  return total(post) - total(pre);
+}
@@ -0,0 +1,132 @@
+// src/utils/errors.ts
+
+import type { ErrorCode } from '@/types';
+
+/**
+ * Error raised by the order services, carrying a stable code for API responses
+ */
+export class OrderError extends Error {
+  code: ErrorCode;
+
+  constructor(message: string, code: ErrorCode = 'INTERNAL_ERROR') {
+    super(message);
+    this.name = 'OrderError';
+    this.code = code;
+  }
+}
+
+/**
+ * Request rejected by a rate limit; retryAfterMs is when a token is next available
+ */
+export class RateLimitError extends OrderError {
+  retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message, 'RATE_LIMITED');
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Error response or failure talking to the Jupiter API
+ */
+export class JupiterApiError extends OrderError {
+  status?: number;
+  retryable: boolean;
+
+  constructor(message: string, code: ErrorCode, status?: number, retryable: boolean = false) {
+    super(message, code);
+    this.name = 'JupiterApiError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Jupiter rejected the request as malformed or unsupported (HTTP 4xx)
+ */
+export class JupiterBadRequestError extends JupiterApiError {
+  constructor(message: string, status: number) {
+    super(message, 'JUPITER_BAD_REQUEST', status);
+    this.name = 'JupiterBadRequestError';
+  }
+}
+
+/**
+ * Jupiter found no route for the requested pair and amount
+ */
+export class JupiterNoRouteError extends JupiterApiError {
+  constructor(message: string, status: number) {
+    super(message, 'JUPITER_NO_ROUTE', status);
+    this.name = 'JupiterNoRouteError';
+  }
+}
+
+/**
+ * Jupiter throttled the gateway (HTTP 429)
+ */
+export class JupiterRateLimitError extends JupiterApiError {
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 'JUPITER_RATE_LIMITED', 429, true);
+    this.name = 'JupiterRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Jupiter is unreachable, timing out, failing (HTTP 5xx) or the circuit breaker is open
+ */
+export class JupiterUnavailableError extends JupiterApiError {
+  constructor(message: string, status?: number) {
+    super(message, 'JUPITER_UNAVAILABLE', status, true);
+    this.name = 'JupiterUnavailableError';
+  }
+}
+
+// HTTP status returned for each error code
+export const ERROR_HTTP_STATUS: Record<ErrorCode, number> = {
+  INVALID_PARAMS: 400,
+  UNAUTHENTICATED: 401,
+  UNAUTHORIZED: 403,
+  ORDER_NOT_FOUND: 404,
+  SCHEDULE_NOT_FOUND: 404,
+  WEBHOOK_NOT_FOUND: 404,
+  LP_NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  INVALID_STATUS: 409,
+  LP_NOT_ELIGIBLE: 422,
+  RATE_LIMITED: 429,
+  PENDING_ORDER_LIMIT: 429,
+  TARGET_NOT_MET: 409,
+  QUOTE_DRIFT: 409,
+  CONFIGURATION_ERROR: 500,
+  PERSISTENCE_FAILED: 500,
+  INTERNAL_ERROR: 500,
+  QUOTE_FAILED: 502,
+  JUPITER_BAD_REQUEST: 422,
+  JUPITER_NO_ROUTE: 422,
+  JUPITER_RATE_LIMITED: 503,
+  JUPITER_UNAVAILABLE: 503,
+  EXECUTION_FAILED: 502,
+  TRANSACTION_EXPIRED: 503,
+  TRANSACTION_UNCONFIRMED: 409,
+  SWAP_NOT_SENT: 503,
+  REFUND_FAILED: 502,
+  DEPOSIT_INVALID: 422,
+  DEPOSIT_REQUIRED: 409
+};
+
+/**
+ * Get the error code for any thrown value
+ */
+export const getErrorCode = (error: unknown): ErrorCode =>
+  error instanceof OrderError ? error.code : 'INTERNAL_ERROR';
+
+/**
+ * Get a printable message for any thrown value
+ */
+export const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
@@ -0,0 +1,91 @@
+// src/utils/fiat.ts
+
+import { getTokenByMint } from './constants';
+import type { FiatRecipient, Order } from '@/types';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const INSTITUTION_PATTERN = /^[A-Za-z0-9 _.-]{2,64}$/;
+const ACCOUNT_IDENTIFIER_PATTERN = /^\+?[A-Za-z0-9 -]{4,34}$/;
+const MASKED_ACCOUNT_IDENTIFIER_PATTERN = /^\*{4}[A-Za-z0-9+]{0,4}$/;
+
+/**
+ * Validate a fiat currency code and recipient. Returns a list of problems (empty when valid).
+ * With allowMasked, an account identifier masked by maskAccountIdentifier is accepted.
+ */
+export function validateFiatDetails(
+  currency: unknown,
+  recipient: unknown,
+  options: { allowMasked?: boolean } = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof currency !== 'string' || !CURRENCY_PATTERN.test(currency)) {
+    errors.push('fiat currency must be a 3-letter ISO 4217 code');
+  }
+
+  if (!recipient || typeof recipient !== 'object') {
+    return [...errors, 'fiat recipient is required'];
+  }
+
+  const { institution, accountIdentifier, accountName } = recipient as Record<string, unknown>;
+
+  if (typeof institution !== 'string' || !INSTITUTION_PATTERN.test(institution)) {
+    errors.push('fiat recipient institution must be 2-64 letters, digits or separators');
+  }
+
+  const masked = options.allowMasked && typeof accountIdentifier === 'string' &&
+    MASKED_ACCOUNT_IDENTIFIER_PATTERN.test(accountIdentifier);
+  if (!masked && (typeof accountIdentifier !== 'string' || !ACCOUNT_IDENTIFIER_PATTERN.test(accountIdentifier))) {
+    errors.push('fiat recipient account identifier must be 4-34 letters, digits or separators');
+  }
+
+  if (typeof accountName !== 'string' || !accountName.trim() || accountName.length > 140) {
+    errors.push('fiat recipient account name must be 1-140 characters');
+  }
+
+  return errors;
+}
+
+/**
+ * Fiat value of an output token amount (smallest units) at a fiat-per-token rate,
+ * rounded to cents. Returns undefined for tokens with unknown decimals.
+ */
+export function computeFiatAmount(outputAmount: number, outputMint: string, rate: number): number | undefined {
+  const token = getTokenByMint(outputMint);
+  if (!token) return undefined;
+
+  return Math.round((outputAmount / Math.pow(10, token.decimals)) * rate * 100) / 100;
+}
+
+/**
+ * Keep the last four characters of an account identifier
+ */
+export function maskAccountIdentifier(value: string): string {
+  const compact = value.replace(/[\s-]/g, '');
+  return `****${compact.slice(-4)}`;
+}
+
+/**
+ * Check whether recipient details were masked, e.g. by a default export
+ */
+export const isMaskedFiatRecipient = (recipient: FiatRecipient): boolean =>
+  MASKED_ACCOUNT_IDENTIFIER_PATTERN.test(recipient.accountIdentifier);
+
+/**
+ * Hide recipient account details
+ */
+export const maskFiatRecipient = (recipient: FiatRecipient): FiatRecipient => ({
+  institution: recipient.institution,
+  accountIdentifier: maskAccountIdentifier(recipient.accountIdentifier),
+  accountName: recipient.accountName
+    .split(/\s+/)
+    .map(part => `${part.charAt(0)}***`)
+    .join(' ')
+});
+
+/**
+ * Copy of an order with sensitive fiat payout fields masked, for exports and logs
+ */
+export const redactOrder = (order: Order): Order => order.fiat
+  ? { ...order, fiat: { ...order.fiat, recipient: maskFiatRecipient(order.fiat.recipient) } }
+  : order;
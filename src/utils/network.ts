@@ -0,0 +1,87 @@
+// src/utils/network.ts
+// Server-only: classifies addresses with Node's net module.
+
+import { lookup, type LookupAddress } from 'dns';
+import { isIP, type LookupFunction } from 'net';
+
+// Hostnames that resolve to the local machine or a private network by convention
+const PRIVATE_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. Non-IP strings return false.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return false;
+}
+
+/**
+ * Check a URL hostname (a name or an IP literal) without resolving it
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  return host === 'localhost' ||
+    PRIVATE_HOSTNAME_SUFFIXES.some(suffix => host.endsWith(suffix)) ||
+    isPrivateAddress(host);
+}
+
+/**
+ * A `lookup` for http(s).request that fails when a host resolves to a private address.
+ * The socket connects to the address checked here, so a DNS answer that changes
+ * between a check and the connection (rebinding) cannot reach an internal host.
+ * IP literals skip lookup; check those with isPrivateHostname.
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      const rejection: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`);
+      rejection.code = 'EPRIVATEADDRESS';
+      callback(rejection, '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  return a === 0 || // "This" network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224; // Multicast and reserved
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const host = address.toLowerCase();
+
+  // IPv4-mapped (::ffff:a.b.c.d) addresses are checked as IPv4
+  const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+
+  const firstGroup = parseInt(host.split(':')[0] || '0', 16);
+  return host === '::' ||
+    host === '::1' ||
+    host.startsWith('::ffff:') || // Mapped addresses in hex form
+    (firstGroup & 0xfe00) === 0xfc00 || // Unique local fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // Link-local fe80::/10
+    (firstGroup & 0xff00) === 0xff00; // Multicast ff00::/8
+}
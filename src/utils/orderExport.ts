@@ -0,0 +1,239 @@
+// src/utils/orderExport.ts
+
+import { PublicKey } from '@solana/web3.js';
+import { getTokenByMint } from './constants';
+import { maskFiatRecipient, validateFiatDetails } from './fiat';
+import { OrderStatus } from '@/types';
+import type { Order, OrderExportEnvelope } from '@/types';
+
+export const ORDER_EXPORT_FORMAT = 'jupiter-swap-gateway/orders';
+export const ORDER_EXPORT_VERSION = 1;
+
+const isString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPublicKey = (value: unknown): boolean => {
+  if (!isString(value)) return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate an untrusted order record. Returns a list of problems (empty when valid).
+ */
+export function validateOrderRecord(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return ['order must be an object'];
+  }
+
+  const order = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of ['id', 'inputToken', 'outputToken'] as const) {
+    if (!isString(order[field])) errors.push(`${field} must be a non-empty string`);
+  }
+
+  for (const field of ['inputAmount', 'expectedOutputAmount', 'protocolFee', 'timestamp'] as const) {
+    if (!isAmount(order[field])) errors.push(`${field} must be a non-negative number`);
+  }
+
+  for (const field of ['actualOutputAmount', 'maxInputAmount', 'agreedOutputAmount', 'depositSurplus', 'expiresAt'] as const) {
+    if (order[field] !== undefined && !isAmount(order[field])) {
+      errors.push(`${field} must be a non-negative number`);
+    }
+  }
+
+  for (const field of ['creator', 'refundAddress', 'liquidityProvider'] as const) {
+    if (!isPublicKey(order[field])) errors.push(`${field} must be a valid public key`);
+  }
+
+  if (!Object.values(OrderStatus).includes(order.status as OrderStatus)) {
+    errors.push(`status must be one of ${Object.values(OrderStatus).join(', ')}`);
+  }
+
+  if (order.swapMode !== undefined && order.swapMode !== 'ExactIn' && order.swapMode !== 'ExactOut') {
+    errors.push('swapMode must be ExactIn or ExactOut');
+  }
+
+  if (typeof order.rate !== 'string') {
+    errors.push('rate must be a string');
+  }
+
+  const quote = order.quote as Record<string, unknown> | undefined;
+  if (!quote || typeof quote !== 'object' || !isString(quote.inAmount) || !isString(quote.outAmount)) {
+    errors.push('quote must include inAmount and outAmount');
+  }
+
+  if (order.statusHistory !== undefined && !Array.isArray(order.statusHistory)) {
+    errors.push('statusHistory must be an array');
+  }
+
+  errors.push(...validateTargetRate(order.targetRate));
+  errors.push(...validateDeposit(order.deposit, order.depositSignature));
+
+  for (const field of ['pendingTransaction', 'pendingRefund'] as const) {
+    const pending = order[field];
+    if (pending !== undefined && (!isObject(pending) || !isString(pending.signature) ||
+      !isAmount(pending.lastValidBlockHeight) || !isAmount(pending.submittedAt))) {
+      errors.push(`${field} must have a signature, lastValidBlockHeight and submittedAt`);
+    }
+  }
+
+  const fiat = order.fiat as Record<string, unknown> | undefined;
+  if (fiat !== undefined) {
+    if (!fiat || typeof fiat !== 'object') {
+      errors.push('fiat must be an object');
+    } else {
+      // Default exports mask the recipient; such orders import flagged as not settleable
+      errors.push(...validateFiatDetails(fiat.currency, fiat.recipient, { allowMasked: true }));
+      if (!isAmount(fiat.amount) || !isAmount(fiat.rate)) {
+        errors.push('fiat amount and rate must be non-negative numbers');
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateTargetRate(value: unknown): string[] {
+  if (value === undefined) return [];
+
+  if (!isObject(value)) {
+    return ['targetRate must be an object'];
+  }
+
+  switch (value.type) {
+    case 'market':
+      return [];
+    case 'rate':
+      return isPositive(value.outputPerInput) ? [] : ['targetRate outputPerInput must be greater than 0'];
+    case 'minOutput':
+      return isPositive(value.minOutputAmount) ? [] : ['targetRate minOutputAmount must be greater than 0'];
+    default:
+      return ['targetRate has an invalid type'];
+  }
+}
+
+function validateDeposit(value: unknown, depositSignature: unknown): string[] {
+  if (value === undefined) return [];
+
+  if (!isObject(value) || !isString(value.signature) || !isPositive(value.amount) || !isAmount(value.verifiedAt)) {
+    return ['deposit must have a signature, a positive amount and verifiedAt'];
+  }
+
+  if (depositSignature !== undefined && depositSignature !== value.signature) {
+    return ['depositSignature must match deposit.signature'];
+  }
+
+  return [];
+}
+
+/**
+ * Parse an export envelope, or the legacy [id, order] entries array, into raw records
+ */
+export function parseOrderImport(json: string): unknown[] {
+  const data = JSON.parse(json);
+
+  if (Array.isArray(data)) {
+    // Legacy exports: [id, order] entries
+    return data.map(entry => Array.isArray(entry) ? entry[1] : entry);
+  }
+
+  if (data?.format !== ORDER_EXPORT_FORMAT) {
+    throw new Error('Unrecognized export format');
+  }
+
+  if (data.version > ORDER_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${data.version}`);
+  }
+
+  if (!Array.isArray(data.orders)) {
+    throw new Error('Export envelope has no orders array');
+  }
+
+  return data.orders;
+}
+
+/**
+ * Wrap orders in a versioned export envelope
+ */
+export function createOrderExport(orders: Order[]): OrderExportEnvelope {
+  return {
+    format: ORDER_EXPORT_FORMAT,
+    version: ORDER_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    count: orders.length,
+    orders
+  };
+}
+
+const CSV_COLUMNS: [string, (order: Order) => string | number | undefined][] = [
+  ['id', order => order.id],
+  ['created_at', order => new Date(order.timestamp).toISOString()],
+  ['status', order => order.status],
+  ['creator', order => order.creator],
+  ['liquidity_provider', order => order.liquidityProvider],
+  ['input_symbol', order => getTokenByMint(order.inputToken)?.symbol],
+  ['input_mint', order => order.inputToken],
+  ['swap_mode', order => order.swapMode],
+  ['input_amount', order => formatUiAmount(order.inputAmount, order.inputToken)],
+  ['max_input_amount', order =>
+    order.maxInputAmount === undefined ? undefined : formatUiAmount(order.maxInputAmount, order.inputToken)],
+  ['output_symbol', order => getTokenByMint(order.outputToken)?.symbol],
+  ['output_mint', order => order.outputToken],
+  ['expected_output_amount', order => formatUiAmount(order.expectedOutputAmount, order.outputToken)],
+  ['actual_output_amount', order =>
+    order.actualOutputAmount === undefined ? undefined : formatUiAmount(order.actualOutputAmount, order.outputToken)],
+  ['protocol_fee', order => formatUiAmount(order.protocolFee, order.inputToken)],
+  ['fee_collected', order =>
+    order.receipt === undefined ? undefined : formatUiAmount(order.receipt.platformFee, order.inputToken)],
+  ['network_fee_lamports', order => order.receipt?.networkFee],
+  ['realized_slippage_bps', order => order.receipt?.slippageBps],
+  ['fiat_currency', order => order.fiat?.currency],
+  ['fiat_amount', order => order.fiat?.amount],
+  ['fiat_institution', order => order.fiat?.recipient.institution],
+  ['fiat_account', order => order.fiat && maskFiatRecipient(order.fiat.recipient).accountIdentifier],
+  ['settlement_reference', order => order.fiat?.settlementReference],
+  ['failure_code', order => order.failure?.code],
+  ['error_message', order => order.errorMessage],
+  ['transaction_signature', order => order.transactionSignature],
+  ['refund_signature', order => order.refundSignature]
+];
+
+// Decimal-adjusted amount for supported tokens, raw smallest units otherwise
+function formatUiAmount(amount: number, mint: string): string {
+  const token = getTokenByMint(mint);
+  return token ? (amount / Math.pow(10, token.decimals)).toString() : amount.toString();
+}
+
+// Text starting with a formula character is prefixed with ' so spreadsheets show it as text
+function escapeCsv(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render orders as CSV for accounting; fiat account numbers are always masked
+ */
+export function ordersToCsv(orders: Order[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = orders.map(order =>
+    CSV_COLUMNS.map(([, getValue]) => escapeCsv(getValue(order))).join(',')
+  );
+
+  return [header, ...rows].join('\n');
+}
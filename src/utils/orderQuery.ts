@@ -0,0 +1,116 @@
+// src/utils/orderQuery.ts
+
+import { OrderError } from './errors';
+import { OrderStatus } from '@/types';
+import type { Order, OrderQuery, OrderSortField } from '@/types';
+
+export const ORDER_SORT_FIELDS: OrderSortField[] = ['timestamp', 'inputAmount', 'expectedOutputAmount', 'expiresAt'];
+
+export interface OrderCursor {
+  sortBy: OrderSortField;
+  value: number;
+  id: string;
+}
+
+/**
+ * Opaque cursor pointing just past an order in a given sort
+ */
+export function encodeOrderCursor(order: Order, sortBy: OrderSortField): string {
+  const cursor: OrderCursor = { sortBy, value: order[sortBy], id: order.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeOrderCursor(cursor: string, sortBy: OrderSortField): OrderCursor {
+  let decoded: OrderCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new OrderError('Invalid cursor', 'INVALID_PARAMS');
+  }
+
+  if (typeof decoded?.value !== 'number' || typeof decoded.id !== 'string') {
+    throw new OrderError('Invalid cursor', 'INVALID_PARAMS');
+  }
+
+  if (decoded.sortBy !== sortBy) {
+    throw new OrderError('Cursor was issued for a different sort', 'INVALID_PARAMS');
+  }
+
+  return decoded;
+}
+
+/**
+ * Comparator for a sort field, tie-broken by order ID so pages are stable
+ */
+export function compareOrders(sortBy: OrderSortField, direction: 'asc' | 'desc') {
+  const sign = direction === 'asc' ? 1 : -1;
+  return (a: Order, b: Order): number =>
+    sign * (a[sortBy] - b[sortBy] || a.id.localeCompare(b.id));
+}
+
+/**
+ * Check whether an order sorts after the cursor position
+ */
+export function isAfterCursor(order: Order, cursor: OrderCursor, direction: 'asc' | 'desc'): boolean {
+  const sign = direction === 'asc' ? 1 : -1;
+  return sign * (order[cursor.sortBy] - cursor.value || order.id.localeCompare(cursor.id)) > 0;
+}
+
+/**
+ * Check the filters that are not served by an index
+ */
+export function matchesOrderQuery(order: Order, query: OrderQuery): boolean {
+  return (query.createdAfter === undefined || order.timestamp >= query.createdAfter) &&
+    (query.createdBefore === undefined || order.timestamp < query.createdBefore) &&
+    (query.minInputAmount === undefined || order.inputAmount >= query.minInputAmount) &&
+    (query.maxInputAmount === undefined || order.inputAmount <= query.maxInputAmount);
+}
+
+const optionalNumber = (value: string | undefined, field: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new OrderError(`${field} must be a number`, 'INVALID_PARAMS');
+  }
+  return number;
+};
+
+/**
+ * Parse and validate an order query from string parameters (e.g. a query string).
+ * `status` accepts a comma-separated list.
+ */
+export function parseOrderQuery(params: Record<string, string | undefined>): OrderQuery {
+  const statuses = params.status ? params.status.split(',').map(status => status.trim()) : undefined;
+  const invalidStatus = statuses?.find(status => !Object.values(OrderStatus).includes(status as OrderStatus));
+  if (invalidStatus) {
+    throw new OrderError(`Invalid status: ${invalidStatus}`, 'INVALID_PARAMS');
+  }
+
+  const sortBy = (params.sortBy ?? 'timestamp') as OrderSortField;
+  if (!ORDER_SORT_FIELDS.includes(sortBy)) {
+    throw new OrderError(`Invalid sortBy: ${sortBy}`, 'INVALID_PARAMS');
+  }
+
+  const sortDirection = params.sortDirection ?? 'desc';
+  if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+    throw new OrderError(`Invalid sortDirection: ${sortDirection}`, 'INVALID_PARAMS');
+  }
+
+  return {
+    creator: params.creator || undefined,
+    liquidityProvider: params.liquidityProvider || undefined,
+    statuses: statuses as OrderStatus[] | undefined,
+    inputToken: params.inputToken || undefined,
+    outputToken: params.outputToken || undefined,
+    createdAfter: optionalNumber(params.createdAfter, 'createdAfter'),
+    createdBefore: optionalNumber(params.createdBefore, 'createdBefore'),
+    minInputAmount: optionalNumber(params.minInputAmount, 'minInputAmount'),
+    maxInputAmount: optionalNumber(params.maxInputAmount, 'maxInputAmount'),
+    signature: params.signature || undefined,
+    sortBy,
+    sortDirection,
+    limit: optionalNumber(params.limit, 'limit'),
+    cursor: params.cursor || undefined
+  };
+}
@@ -0,0 +1,82 @@
+// src/utils/swapReceipt.ts
+
+import type { ParsedTransactionWithMeta, TokenBalance as ChainTokenBalance } from '@solana/web3.js';
+import type { JupiterQuote, SwapReceipt } from '@/types';
+
+export interface SwapReceiptAccounts {
+  payer: string; // Wallet that signed and funded the swap
+  outputTokenAccount: string; // Recipient's token account for the output mint
+  treasuryTokenAccount: string; // Treasury's token account for the input mint
+}
+
+/**
+ * Measure what a confirmed swap actually moved, from the parsed transaction's
+ * pre/post token balances and fee
+ */
+export function computeSwapReceipt(
+  transaction: ParsedTransactionWithMeta,
+  quote: JupiterQuote,
+  accounts: SwapReceiptAccounts
+): SwapReceipt {
+  const meta = transaction.meta;
+  if (!meta) {
+    throw new Error('Transaction has no status metadata');
+  }
+
+  const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toString());
+  const pre = meta.preTokenBalances ?? [];
+  const post = meta.postTokenBalances ?? [];
+
+  const outputAmount = getAccountDelta(pre, post, accountKeys, accounts.outputTokenAccount, quote.outputMint);
+  const platformFee = getAccountDelta(pre, post, accountKeys, accounts.treasuryTokenAccount, quote.inputMint);
+
+  // Input leaves any of the payer's accounts for the input mint (wrapped SOL accounts may be
+  // closed by the swap, so native SOL input cannot be measured this way)
+  const payerInputAccounts = new Set(
+    [...pre, ...post]
+      .filter(balance => balance.owner === accounts.payer && balance.mint === quote.inputMint)
+      .map(balance => accountKeys[balance.accountIndex])
+  );
+  const inputAmount = payerInputAccounts.size === 0
+    ? undefined
+    : -Array.from(payerInputAccounts)
+      .reduce((sum, account) => sum + getAccountDelta(pre, post, accountKeys, account, quote.inputMint), 0);
+
+  const quotedOutputAmount = parseInt(quote.outAmount);
+  const quotedInputAmount = parseInt(quote.inAmount);
+
+  return {
+    outputAmount,
+    quotedOutputAmount,
+    inputAmount,
+    quotedInputAmount,
+    platformFee,
+    networkFee: meta.fee,
+    // ExactOut fixes the output, so slippage shows up as extra input spent
+    slippageBps: quote.swapMode === 'ExactOut'
+      ? (inputAmount === undefined ? 0 : bpsOfQuote(inputAmount - quotedInputAmount, quotedInputAmount))
+      : bpsOfQuote(quotedOutputAmount - outputAmount, quotedOutputAmount),
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? undefined
+  };
+}
+
+function bpsOfQuote(difference: number, quoted: number): number {
+  return quoted > 0 ? Math.round((difference / quoted) * 10000) : 0;
+}
+
+// Change in one token account's balance; accounts created in the transaction start at 0
+function getAccountDelta(
+  pre: ChainTokenBalance[],
+  post: ChainTokenBalance[],
+  accountKeys: string[],
+  account: string,
+  mint: string
+): number {
+  const balanceOf = (balances: ChainTokenBalance[]) => {
+    const entry = balances.find(balance => accountKeys[balance.accountIndex] === account && balance.mint === mint);
+    return entry ? Number(entry.uiTokenAmount.amount) : 0;
+  };
+
+  return balanceOf(post) - balanceOf(pre);
+}
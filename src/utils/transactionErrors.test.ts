@@ -0,0 +1,43 @@
+// src/utils/transactionErrors.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { decodeTransactionError } from './transactionErrors';
+
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111';
+
+const customError = (index: number, code: number) => ({ InstructionError: [index, { Custom: code }] });
+
+describe('decodeTransactionError', () => {
+  it('decodes a custom code by the program of the failing instruction', () => {
+    const programIds = [COMPUTE_BUDGET, TOKEN_PROGRAM, JUPITER];
+
+    expect(decodeTransactionError(customError(1, 1), 'onChain', [], programIds).code).toBe('INSUFFICIENT_FUNDS');
+    expect(decodeTransactionError(customError(2, 6001), 'onChain', [], programIds).code).toBe('SLIPPAGE_EXCEEDED');
+  });
+
+  it('does not decode a code another program happens to share', () => {
+    const failure = decodeTransactionError(customError(1, 1), 'onChain', [], [COMPUTE_BUDGET, JUPITER]);
+
+    expect(failure.code).toBe('PROGRAM_ERROR');
+  });
+
+  it('prefers the program the logs report as failed over the top-level instruction', () => {
+    // Jupiter's instruction failed inside a CPI to the token program
+    const logs = [
+      `Program ${JUPITER} invoke [1]`,
+      `Program ${TOKEN_PROGRAM} invoke [2]`,
+      `Program ${TOKEN_PROGRAM} failed: custom program error: 0x1`,
+      `Program ${JUPITER} failed: custom program error: 0x1`
+    ];
+
+    const failure = decodeTransactionError(customError(0, 1), 'simulation', logs, [JUPITER]);
+
+    expect(failure.code).toBe('INSUFFICIENT_FUNDS');
+  });
+
+  it('leaves custom codes from an unknown program undecoded', () => {
+    expect(decodeTransactionError(customError(0, 6001), 'onChain').code).toBe('PROGRAM_ERROR');
+  });
+});
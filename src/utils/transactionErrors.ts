@@ -0,0 +1,148 @@
+// src/utils/transactionErrors.ts
+
+import { Transaction, VersionedTransaction } from '@solana/web3.js';
+import type { SwapFailure, SwapFailureCode } from '@/types';
+
+// Custom error codes are program-specific, so they are only decoded for known programs
+const CUSTOM_ERROR_CODES: Record<string, Record<number, SwapFailureCode>> = {
+  // Jupiter aggregator v6: SlippageToleranceExceeded, ExactOutAmountNotMatched
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: { 6001: 'SLIPPAGE_EXCEEDED', 6017: 'SLIPPAGE_EXCEEDED' },
+  // Token program and Token-2022: InsufficientFunds
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: { 1: 'INSUFFICIENT_FUNDS' },
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: { 1: 'INSUFFICIENT_FUNDS' },
+  // System program: ResultWithNegativeLamports
+  '11111111111111111111111111111111': { 1: 'INSUFFICIENT_FUNDS' }
+};
+
+// The innermost program to fail logs first, e.g. "Program <id> failed: custom program error: 0x1"
+const FAILED_PROGRAM_LOG = /^Program (\w+) failed/;
+
+const INSTRUCTION_ERROR_CODES: Record<string, SwapFailureCode> = {
+  ComputationalBudgetExceeded: 'COMPUTE_EXCEEDED',
+  InsufficientFunds: 'INSUFFICIENT_FUNDS',
+  UninitializedAccount: 'ACCOUNT_NOT_FOUND',
+  MissingAccount: 'ACCOUNT_NOT_FOUND',
+  InvalidAccountData: 'ACCOUNT_NOT_FOUND'
+};
+
+const TRANSACTION_ERROR_CODES: Record<string, SwapFailureCode> = {
+  InsufficientFundsForFee: 'INSUFFICIENT_FUNDS',
+  InsufficientFundsForRent: 'INSUFFICIENT_FUNDS',
+  AccountNotFound: 'ACCOUNT_NOT_FOUND',
+  ProgramAccountNotFound: 'ACCOUNT_NOT_FOUND',
+  BlockhashNotFound: 'BLOCKHASH_EXPIRED'
+};
+
+// Checked against program logs and error text, in order
+const TEXT_PATTERNS: [RegExp, SwapFailureCode][] = [
+  [/slippage/i, 'SLIPPAGE_EXCEEDED'],
+  [/exceeded CUs meter|computational budget exceeded/i, 'COMPUTE_EXCEEDED'],
+  // "no record of a prior credit" is an unfunded fee payer
+  [/insufficient (funds|lamports)|no record of a prior credit/i, 'INSUFFICIENT_FUNDS'],
+  [/account ?not ?found|could not find account|account does not exist/i, 'ACCOUNT_NOT_FOUND'],
+  [/blockhash not found/i, 'BLOCKHASH_EXPIRED']
+];
+
+const FAILURE_MESSAGES: Record<Exclude<SwapFailureCode, 'PROGRAM_ERROR' | 'UNKNOWN'>, string> = {
+  SLIPPAGE_EXCEEDED: 'The price moved beyond the allowed slippage before the swap executed',
+  INSUFFICIENT_FUNDS: 'The executing wallet does not hold enough tokens or SOL for the swap and fees',
+  ACCOUNT_NOT_FOUND: 'A token account required by the swap does not exist',
+  COMPUTE_EXCEEDED: 'The swap ran out of compute budget',
+  BLOCKHASH_EXPIRED: 'The transaction expired before it was processed'
+};
+
+/**
+ * Program ID of each top-level instruction, for decodeTransactionError
+ */
+export function getInstructionProgramIds(transaction: Transaction | VersionedTransaction): string[] {
+  if (transaction instanceof VersionedTransaction) {
+    const { compiledInstructions, staticAccountKeys } = transaction.message;
+    return compiledInstructions.map(instruction => staticAccountKeys[instruction.programIdIndex].toString());
+  }
+
+  return transaction.instructions.map(instruction => instruction.programId.toString());
+}
+
+/**
+ * Decode a transaction error (from simulation, confirmation or Jupiter's simulationError)
+ * into a typed failure with a readable message. Logs, when available, refine the match.
+ * Custom error codes are only decoded when the failing program is known, from the logs or
+ * from `programIds` (the program ID of each top-level instruction).
+ */
+export function decodeTransactionError(
+  err: unknown,
+  stage: SwapFailure['stage'],
+  logs: string[] = [],
+  programIds: string[] = []
+): SwapFailure {
+  const raw = typeof err === 'string' ? err : JSON.stringify(err);
+  let code: SwapFailureCode = 'UNKNOWN';
+  let instructionIndex: number | undefined;
+  let customCode: number | undefined;
+
+  if (typeof err === 'string') {
+    code = TRANSACTION_ERROR_CODES[err] ?? 'UNKNOWN';
+  } else if (err && typeof err === 'object') {
+    const instructionError = (err as { InstructionError?: [number, unknown] }).InstructionError;
+
+    if (Array.isArray(instructionError)) {
+      const [index, detail] = instructionError;
+      instructionIndex = index;
+
+      if (typeof detail === 'string') {
+        code = INSTRUCTION_ERROR_CODES[detail] ?? 'PROGRAM_ERROR';
+      } else if (detail && typeof (detail as { Custom?: unknown }).Custom === 'number') {
+        customCode = (detail as { Custom: number }).Custom;
+        const programId = getFailedProgramId(logs) ?? programIds[index];
+        code = (programId && CUSTOM_ERROR_CODES[programId]?.[customCode]) || 'PROGRAM_ERROR';
+      } else {
+        code = 'PROGRAM_ERROR';
+      }
+    } else {
+      // Object-form transaction errors, e.g. { InsufficientFundsForRent: { account_index } }
+      const key = Object.keys(err)[0];
+      code = (key && TRANSACTION_ERROR_CODES[key]) || 'UNKNOWN';
+    }
+  }
+
+  // Generic program failures are often explained by the logs (or Jupiter's error text)
+  if (code === 'PROGRAM_ERROR' || code === 'UNKNOWN') {
+    const text = [...logs, raw].join('\n');
+    code = TEXT_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? code;
+  }
+
+  return {
+    code,
+    message: describeFailure(code, instructionIndex, customCode, raw),
+    stage,
+    instructionIndex,
+    raw
+  };
+}
+
+function getFailedProgramId(logs: string[]): string | undefined {
+  for (const line of logs) {
+    const match = line.match(FAILED_PROGRAM_LOG);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function describeFailure(
+  code: SwapFailureCode,
+  instructionIndex: number | undefined,
+  customCode: number | undefined,
+  raw: string
+): string {
+  if (code === 'PROGRAM_ERROR') {
+    const location = instructionIndex === undefined ? '' : ` in instruction ${instructionIndex}`;
+    const detail = customCode === undefined ? '' : ` (custom error ${customCode})`;
+    return `A program rejected the swap${location}${detail}`;
+  }
+
+  if (code === 'UNKNOWN') {
+    return `Transaction failed: ${raw}`;
+  }
+
+  return FAILURE_MESSAGES[code];
+}
@@ -0,0 +1,36 @@
+// src/utils/webhooks.ts
+
+import { hasRole } from '@/services/authorization';
+import { OrderError } from './errors';
+import type { Caller, WebhookEndpoint } from '@/types';
+
+/**
+ * Hide an endpoint's signing secret for listing responses
+ */
+export const redactEndpoint = (endpoint: WebhookEndpoint): WebhookEndpoint => ({
+  ...endpoint,
+  secret: `${endpoint.secret.slice(0, 10)}...`
+});
+
+/**
+ * Check whether a caller may manage an endpoint: admins manage all,
+ * liquidity providers only endpoints scoped to themselves
+ */
+export const canManageEndpoint = (caller: Caller, endpoint: WebhookEndpoint): boolean =>
+  hasRole(caller, 'admin') ||
+  (hasRole(caller, 'liquidityProvider') && endpoint.liquidityProvider === caller.publicKey);
+
+/**
+ * Throw unless the caller may manage the endpoint
+ */
+export function requireEndpointAccess(caller: Caller, endpoint: WebhookEndpoint | undefined): WebhookEndpoint {
+  if (!endpoint) {
+    throw new OrderError('Webhook endpoint not found', 'WEBHOOK_NOT_FOUND');
+  }
+
+  if (!canManageEndpoint(caller, endpoint)) {
+    throw new OrderError('Unauthorized: Only the endpoint\'s LP or an admin can manage it', 'UNAUTHORIZED');
+  }
+
+  return endpoint;
+}